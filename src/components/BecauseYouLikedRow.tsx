@@ -0,0 +1,42 @@
+import SlickSlider from "./slick-slider/SlickSlider";
+import { useGetRecommendationsQuery } from "src/store/slices/discover";
+import { useLovedTitles } from "src/hooks/useRatings";
+import { Movie } from "src/types/Movie";
+import { getMediaType } from "src/utils/media";
+
+// Only the most recently loved titles get a row of their own
+const MAX_ROWS = 2;
+
+function RecommendationRow({ video }: { video: Movie }) {
+  const mediaType = getMediaType(video);
+  const { data } = useGetRecommendationsQuery({ mediaType, id: video.id });
+
+  if (!data || data.results.length === 0) {
+    return null;
+  }
+
+  return (
+    <SlickSlider
+      data={data}
+      genre={{ name: video.title, apiString: "recommendations" }}
+      mediaType={mediaType}
+      title={`Because you liked ${video.title}`}
+      handleNext={() => {}}
+    />
+  );
+}
+
+export default function BecauseYouLikedRow() {
+  const lovedTitles = useLovedTitles();
+
+  return (
+    <>
+      {lovedTitles.slice(0, MAX_ROWS).map((video) => (
+        <RecommendationRow
+          key={`${getMediaType(video)}_${video.id}`}
+          video={video}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,50 @@
+import { useCallback, useMemo } from "react";
+import SlickSlider from "./slick-slider/SlickSlider";
+import { useContinueWatching } from "src/hooks/usePlaybackProgress";
+import { Movie } from "src/types/Movie";
+import { getMediaType } from "src/utils/media";
+import { getProgressKey, getProgressRatio } from "src/utils/playback";
+
+const CONTINUE_WATCHING_GENRE = {
+  name: "Continue Watching",
+  apiString: "continue_watching",
+};
+
+export default function ContinueWatchingRow() {
+  const entries = useContinueWatching();
+
+  const data = useMemo(
+    () => ({
+      page: 1,
+      total_pages: 1,
+      total_results: entries.length,
+      results: entries.map((entry) => entry.video),
+    }),
+    [entries]
+  );
+
+  const getItemProgress = useCallback(
+    (item: Movie) => {
+      const titleKey = getProgressKey(getMediaType(item), item.id);
+      const entry = entries.find(
+        (e) => getProgressKey(e.mediaType, e.id) === titleKey
+      );
+      return entry ? getProgressRatio(entry) : undefined;
+    },
+    [entries]
+  );
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <SlickSlider
+      data={data}
+      genre={CONTINUE_WATCHING_GENRE}
+      title={CONTINUE_WATCHING_GENRE.name}
+      handleNext={() => {}}
+      getItemProgress={getItemProgress}
+    />
+  );
+}
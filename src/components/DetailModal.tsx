@@ -1,17 +1,18 @@
-import { forwardRef, useCallback, useRef, useState } from "react";
+import { forwardRef, useCallback, useMemo, useRef, useState } from "react";
 import Box from "@mui/material/Box";
 import Grid from "@mui/material/Grid";
 import Container from "@mui/material/Container";
 import Stack from "@mui/material/Stack";
 import IconButton from "@mui/material/IconButton";
 import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
 import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogActions from "@mui/material/DialogActions";
 import DialogContent from "@mui/material/DialogContent";
 import Slide from "@mui/material/Slide";
 import { TransitionProps } from "@mui/material/transitions";
 import CloseIcon from "@mui/icons-material/Close";
-import AddIcon from "@mui/icons-material/Add";
-import ThumbUpOffAltIcon from "@mui/icons-material/ThumbUpOffAlt";
 import VolumeUpIcon from "@mui/icons-material/VolumeUp";
 import VolumeOffIcon from "@mui/icons-material/VolumeOff";
 import Player from "video.js/dist/types/player";
@@ -19,13 +20,22 @@ import Player from "video.js/dist/types/player";
 import MaxLineTypography from "./MaxLineTypography";
 import PlayButton from "./PlayButton";
 import NetflixIconButton from "./NetflixIconButton";
+import MyListButton from "./MyListButton";
+import RatingButton from "./RatingButton";
 import AgeLimitChip from "./AgeLimitChip";
 import QualityChip from "./QualityChip";
 import { formatMinuteToReadable, getRandomNumber } from "src/utils/common";
 import SimilarVideoCard from "./SimilarVideoCard";
+import EpisodeList from "./EpisodeList";
 import { useDetailModal } from "src/providers/DetailModalProvider";
+import useCertification, {
+  useMaturityFilter,
+} from "src/hooks/useCertification";
+import useMatchScore from "src/hooks/useMatchScore";
 import { useGetSimilarVideosQuery } from "src/store/slices/discover";
 import { MEDIA_TYPE } from "src/types/Common";
+import { Movie } from "src/types/Movie";
+import { detailToMovie, isTvDetail } from "src/utils/media";
 import VideoJSPlayer from "./watch/VideoJSPlayer";
 
 const Transition = forwardRef(function Transition(
@@ -37,12 +47,29 @@ const Transition = forwardRef(function Transition(
   return <Slide direction="up" ref={ref} {...props} />;
 });
 
+const NO_VIDEOS: Movie[] = [];
+
 export default function DetailModal() {
-  const { detail, setDetailType } = useDetailModal();
+  const { detail, isBlocked, setDetailType } = useDetailModal();
   const { data: similarVideos } = useGetSimilarVideosQuery(
     { mediaType: detail.mediaType ?? MEDIA_TYPE.Movie, id: detail.id ?? 0 },
     { skip: !detail.id }
   );
+  const visibleSimilarVideos = useMaturityFilter(
+    similarVideos?.results ?? NO_VIDEOS
+  );
+  const certification = useCertification(
+    detail.mediaType ?? MEDIA_TYPE.Movie,
+    detail.id
+  );
+  const video = useMemo(
+    () =>
+      detail.mediaDetail
+        ? detailToMovie(detail.mediaDetail, detail.mediaType)
+        : undefined,
+    [detail.mediaDetail, detail.mediaType]
+  );
+  const matchScore = useMatchScore(video);
   const playerRef = useRef<Player | null>(null);
   const [muted, setMuted] = useState(true);
 
@@ -58,7 +85,27 @@ export default function DetailModal() {
     }
   }, []);
 
-  if (detail.mediaDetail) {
+  if (isBlocked) {
+    const handleClose = () =>
+      setDetailType({ mediaType: undefined, id: undefined });
+    return (
+      <Dialog open fullWidth maxWidth="xs" onClose={handleClose}>
+        <DialogTitle>Not available on this profile</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: "text.secondary" }}>
+            This title is rated above the profile's maturity setting.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={handleClose}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+    );
+  }
+
+  if (detail.mediaDetail && video) {
     return (
       <Dialog
         fullWidth
@@ -172,12 +219,10 @@ export default function DetailModal() {
                     mediaType={detail.mediaType}
                     movieId={detail.id}
                   />
-                  <NetflixIconButton>
-                    <AddIcon />
-                  </NetflixIconButton>
-                  <NetflixIconButton>
-                    <ThumbUpOffAltIcon />
-                  </NetflixIconButton>
+                  <MyListButton
+                    video={video}
+                  />
+                  <RatingButton video={video} />
                   <Box flexGrow={1} />
                   <NetflixIconButton
                     size="large"
@@ -199,14 +244,22 @@ export default function DetailModal() {
                         <Typography
                           variant="subtitle1"
                           sx={{ color: "success.main" }}
-                        >{`${getRandomNumber(100)}% Match`}</Typography>
+                        >{`${matchScore}% Match`}</Typography>
                         <Typography variant="body2">
                           {detail.mediaDetail?.release_date.substring(0, 4)}
                         </Typography>
-                        <AgeLimitChip label={`${getRandomNumber(20)}+`} />
-                        <Typography variant="subtitle2">{`${formatMinuteToReadable(
-                          getRandomNumber(180)
-                        )}`}</Typography>
+                        {certification && (
+                          <AgeLimitChip label={certification} />
+                        )}
+                        <Typography variant="subtitle2">
+                          {isTvDetail(detail.mediaDetail)
+                            ? `${detail.mediaDetail.number_of_seasons} ${
+                                detail.mediaDetail.number_of_seasons === 1
+                                  ? "Season"
+                                  : "Seasons"
+                              }`
+                            : formatMinuteToReadable(getRandomNumber(180))}
+                        </Typography>
                         <QualityChip label="HD" />
                       </Stack>
 
@@ -234,7 +287,17 @@ export default function DetailModal() {
                 </Container>
               </Box>
             </Box>
-            {similarVideos && similarVideos.results.length > 0 && (
+            {isTvDetail(detail.mediaDetail) && (
+              <Container
+                sx={{
+                  py: 2,
+                  px: { xs: 2, sm: 3, md: 5 },
+                }}
+              >
+                <EpisodeList tvDetail={detail.mediaDetail} />
+              </Container>
+            )}
+            {visibleSimilarVideos.length > 0 && (
               <Container
                 sx={{
                   py: 2,
@@ -245,7 +308,7 @@ export default function DetailModal() {
                   More Like This
                 </Typography>
                 <Grid container spacing={2}>
-                  {similarVideos.results.map((sm) => (
+                  {visibleSimilarVideos.map((sm) => (
                     <Grid item xs={6} sm={4} key={sm.id}>
                       <SimilarVideoCard video={sm} />
                     </Grid>
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import MenuItem from "@mui/material/MenuItem";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import LinearProgress from "@mui/material/LinearProgress";
+import ButtonBase from "@mui/material/ButtonBase";
+import PlayCircleOutlineIcon from "@mui/icons-material/PlayCircleOutline";
+import MaxLineTypography from "./MaxLineTypography";
+import { useGetConfigurationQuery } from "src/store/slices/configuration";
+import { useGetTvSeasonQuery } from "src/store/slices/tv";
+import { useProfileProgress } from "src/hooks/usePlaybackProgress";
+import { MEDIA_TYPE } from "src/types/Common";
+import { TvDetail } from "src/types/Tv";
+import { getPlayableSeasons, getWatchPath } from "src/utils/media";
+import { getProgressKey, getProgressRatio } from "src/utils/playback";
+
+interface EpisodeListProps {
+  tvDetail: TvDetail;
+}
+
+export default function EpisodeList({ tvDetail }: EpisodeListProps) {
+  const navigate = useNavigate();
+  const seasons = getPlayableSeasons(tvDetail);
+  const profileProgress = useProfileProgress();
+  const { data: configuration } = useGetConfigurationQuery(undefined);
+  const [seasonNumber, setSeasonNumber] = useState(
+    seasons[0]?.season_number ?? 1
+  );
+  const { data: season, isFetching } = useGetTvSeasonQuery(
+    { id: tvDetail.id, seasonNumber },
+    { skip: seasons.length === 0 }
+  );
+
+  if (seasons.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Stack
+        direction="row"
+        alignItems="center"
+        justifyContent="space-between"
+        sx={{ mb: 2 }}
+      >
+        <Typography variant="h6">Episodes</Typography>
+        {seasons.length > 1 ? (
+          <TextField
+            select
+            size="small"
+            value={seasonNumber}
+            onChange={(event) => setSeasonNumber(Number(event.target.value))}
+            sx={{ minWidth: 140 }}
+          >
+            {seasons.map((s) => (
+              <MenuItem key={s.id} value={s.season_number}>
+                {s.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        ) : (
+          <Typography variant="subtitle1">{seasons[0].name}</Typography>
+        )}
+      </Stack>
+      {isFetching && <LinearProgress color="inherit" />}
+      <Stack divider={<Box sx={{ borderBottom: "1px solid #404040" }} />}>
+        {season?.episodes.map((episode) => {
+          const progress =
+            profileProgress[
+              getProgressKey(
+                MEDIA_TYPE.Tv,
+                tvDetail.id,
+                episode.season_number,
+                episode.episode_number
+              )
+            ];
+          return (
+            <ButtonBase
+              key={episode.id}
+              onClick={() =>
+                navigate(
+                  getWatchPath(
+                    MEDIA_TYPE.Tv,
+                    tvDetail.id,
+                    episode.season_number,
+                    episode.episode_number
+                  )
+                )
+              }
+              sx={{
+                py: 2,
+                px: 1,
+                borderRadius: 1,
+                textAlign: "left",
+                justifyContent: "flex-start",
+                "&:hover": { bgcolor: "#333" },
+              }}
+            >
+              <Stack
+                direction="row"
+                spacing={2}
+                alignItems="center"
+                sx={{ width: "100%" }}
+              >
+                <Typography variant="h5" sx={{ width: 32, flexShrink: 0 }}>
+                  {episode.episode_number}
+                </Typography>
+                <Box
+                  sx={{
+                    width: { xs: 100, sm: 130 },
+                    flexShrink: 0,
+                    position: "relative",
+                    paddingTop: { xs: "56px", sm: "73px" },
+                    bgcolor: "#2f2f2f",
+                  }}
+                >
+                  {episode.still_path && (
+                    <img
+                      alt={episode.name}
+                      src={`${configuration?.images.base_url}w300${episode.still_path}`}
+                      style={{
+                        top: 0,
+                        width: "100%",
+                        height: "100%",
+                        objectFit: "cover",
+                        position: "absolute",
+                      }}
+                    />
+                  )}
+                  <PlayCircleOutlineIcon
+                    sx={{
+                      top: "50%",
+                      left: "50%",
+                      position: "absolute",
+                      transform: "translate(-50%, -50%)",
+                    }}
+                  />
+                  {progress && (
+                    <LinearProgress
+                      variant="determinate"
+                      value={getProgressRatio(progress) * 100}
+                      sx={{
+                        left: 0,
+                        right: 0,
+                        bottom: 0,
+                        position: "absolute",
+                        bgcolor: "grey.700",
+                        "& .NetflixLinearProgress-bar": { bgcolor: "#E50914" },
+                      }}
+                    />
+                  )}
+                </Box>
+                <Box flexGrow={1}>
+                  <Stack direction="row" justifyContent="space-between">
+                    <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+                      {episode.name}
+                    </Typography>
+                    {episode.runtime && (
+                      <Typography variant="subtitle2">{`${episode.runtime}m`}</Typography>
+                    )}
+                  </Stack>
+                  <MaxLineTypography
+                    maxLine={3}
+                    variant="body2"
+                    sx={{ color: "text.secondary" }}
+                  >
+                    {episode.overview}
+                  </MaxLineTypography>
+                </Box>
+              </Stack>
+            </ButtonBase>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+}
@@ -1,25 +1,36 @@
-import { useRef, useEffect } from "react";
+import { useRef, useEffect, ReactNode } from "react";
 import Grid from "@mui/material/Grid";
 import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
 import Container from "@mui/material/Container";
 import Typography from "@mui/material/Typography";
 import VideoItemWithHover from "./VideoItemWithHover";
 import { CustomGenre, Genre } from "src/types/Genre";
-import { PaginatedMovieResult } from "src/types/Common";
+import { MEDIA_TYPE, PaginatedMovieResult } from "src/types/Common";
+import { getMediaTypeLabel } from "src/utils/media";
 import useIntersectionObserver from "src/hooks/useIntersectionObserver";
+import { useMaturityFilter } from "src/hooks/useCertification";
+import { useWithoutDisliked } from "src/hooks/useRatings";
 
 interface GridWithInfiniteScrollProps {
   genre: Genre | CustomGenre;
+  mediaType?: MEDIA_TYPE;
   data: PaginatedMovieResult;
   handleNext: (page: number) => void;
+  title?: string;
+  headerAction?: ReactNode;
 }
 export default function GridWithInfiniteScroll({
   genre,
+  mediaType = MEDIA_TYPE.Movie,
   data,
   handleNext,
+  title,
+  headerAction,
 }: GridWithInfiniteScrollProps) {
   const intersectionRef = useRef<HTMLDivElement>(null);
   const intersection = useIntersectionObserver(intersectionRef);
+  const videos = useWithoutDisliked(useMaturityFilter(data.results));
 
   useEffect(() => {
     if (
@@ -42,12 +53,19 @@ export default function GridWithInfiniteScroll({
           bgcolor: "inherit",
         }}
       >
-        <Typography
-          variant="h5"
-          sx={{ color: "text.primary", mb: 2 }}
-        >{`${genre.name} Movies`}</Typography>
+        <Stack
+          direction="row"
+          alignItems="center"
+          justifyContent="space-between"
+          sx={{ mb: 2 }}
+        >
+          <Typography variant="h5" sx={{ color: "text.primary" }}>
+            {title ?? `${genre.name} ${getMediaTypeLabel(mediaType)}`}
+          </Typography>
+          {headerAction}
+        </Stack>
         <Grid container spacing={2}>
-          {data.results
+          {videos
             .filter((v) => !!v.backdrop_path)
             .map((video, idx) => (
               <Grid
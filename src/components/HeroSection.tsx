@@ -1,4 +1,4 @@
-import { useEffect, useState, useMemo, useCallback, useRef } from "react";
+import { useEffect, useState, useCallback, useRef } from "react";
 import Box from "@mui/material/Box";
 import Stack from "@mui/material/Stack";
 import VolumeUpIcon from "@mui/icons-material/VolumeUp";
@@ -19,8 +19,14 @@ import {
   useLazyGetAppendedVideosQuery,
 } from "src/store/slices/discover";
 import { Movie } from "src/types/Movie";
+import useCertification, {
+  useMaturityFilter,
+} from "src/hooks/useCertification";
+import { useWithoutDisliked } from "src/hooks/useRatings";
 import VideoJSPlayer from "./watch/VideoJSPlayer";
 
+const NO_VIDEOS: Movie[] = [];
+
 interface TopTrailerProps {
   mediaType: MEDIA_TYPE;
 }
@@ -37,9 +43,10 @@ export default function TopTrailer({ mediaType }: TopTrailerProps) {
   const playerRef = useRef<Player | null>(null);
   const isOffset = useOffSetTop(window.innerWidth * 0.5625);
   const { setDetailType } = useDetailModal();
-  const maturityRate = useMemo(() => {
-    return getRandomNumber(20);
-  }, []);
+  const availableVideos = useWithoutDisliked(
+    useMaturityFilter(data?.results ?? NO_VIDEOS)
+  );
+  const certification = useCertification(mediaType, video?.id);
 
   const handleReady = useCallback((player: Player) => {
     playerRef.current = player;
@@ -58,12 +65,14 @@ export default function TopTrailer({ mediaType }: TopTrailerProps) {
   }, [isOffset]);
 
   useEffect(() => {
-    if (data && data.results) {
-      const videos = data.results.filter((item) => !!item.backdrop_path);
-      setVideo(videos[getRandomNumber(videos.length)]);
+    // Keep the current pick while restricted profiles' certifications load in
+    if (video && availableVideos.some((item) => item.id === video.id)) {
+      return;
     }
+    const videos = availableVideos.filter((item) => !!item.backdrop_path);
+    setVideo(videos.length ? videos[getRandomNumber(videos.length)] : null);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data]);
+  }, [availableVideos]);
 
   useEffect(() => {
     if (video) {
@@ -176,7 +185,9 @@ export default function TopTrailer({ mediaType }: TopTrailerProps) {
                   >
                     {!muted ? <VolumeUpIcon /> : <VolumeOffIcon />}
                   </NetflixIconButton>
-                  <MaturityRate>{`${maturityRate}+`}</MaturityRate>
+                  {certification && (
+                    <MaturityRate>{certification}</MaturityRate>
+                  )}
                 </Stack>
               </Box>
 
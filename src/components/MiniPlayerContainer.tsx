@@ -0,0 +1,22 @@
+import { useLocation } from "react-router-dom";
+
+import MiniPlayer from "./watch/MiniPlayer";
+import { MAIN_PATH } from "src/constant";
+import { useMiniPlayer } from "src/providers/MiniPlayerProvider";
+
+export default function MiniPlayerContainer() {
+  const location = useLocation();
+  const { miniPlayer, closeMiniPlayer } = useMiniPlayer();
+
+  // The watch page has its own player, two would play at once
+  if (!miniPlayer || location.pathname.startsWith(`/${MAIN_PATH.watch}/`)) {
+    return null;
+  }
+  return (
+    <MiniPlayer
+      key={miniPlayer.watchPath}
+      state={miniPlayer}
+      onClose={closeMiniPlayer}
+    />
+  );
+}
@@ -0,0 +1,29 @@
+import Tooltip from "@mui/material/Tooltip";
+import { IconButtonProps } from "@mui/material/IconButton";
+import AddIcon from "@mui/icons-material/Add";
+import CheckIcon from "@mui/icons-material/Check";
+import NetflixIconButton from "./NetflixIconButton";
+import useMyList from "src/hooks/useMyList";
+import { Movie } from "src/types/Movie";
+
+interface MyListButtonProps extends IconButtonProps {
+  video: Movie;
+}
+
+export default function MyListButton({ video, ...others }: MyListButtonProps) {
+  const { isInMyList, toggle } = useMyList();
+  const added = isInMyList(video);
+
+  return (
+    <Tooltip title={added ? "Remove from My List" : "Add to My List"}>
+      <NetflixIconButton
+        aria-pressed={added}
+        aria-label={added ? "Remove from My List" : "Add to My List"}
+        {...others}
+        onClick={() => toggle(video)}
+      >
+        {added ? <CheckIcon /> : <AddIcon />}
+      </NetflixIconButton>
+    </Tooltip>
+  );
+}
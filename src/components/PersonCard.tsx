@@ -0,0 +1,48 @@
+import Stack from "@mui/material/Stack";
+import Avatar from "@mui/material/Avatar";
+import Typography from "@mui/material/Typography";
+import { Person } from "src/types/Search";
+import MaxLineTypography from "./MaxLineTypography";
+import { useGetConfigurationQuery } from "src/store/slices/configuration";
+
+interface PersonCardProps {
+  person: Person;
+}
+
+export default function PersonCard({ person }: PersonCardProps) {
+  const { data: configuration } = useGetConfigurationQuery(undefined);
+
+  return (
+    <Stack spacing={1} alignItems="center" sx={{ textAlign: "center" }}>
+      <Avatar
+        alt={person.name}
+        src={
+          person.profile_path
+            ? `${configuration?.images.base_url}w185${person.profile_path}`
+            : undefined
+        }
+        sx={{ width: 96, height: 96 }}
+      >
+        {person.name.charAt(0)}
+      </Avatar>
+      <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+        {person.name}
+      </Typography>
+      {person.known_for_department && (
+        <Typography variant="caption" sx={{ color: "text.secondary" }}>
+          {person.known_for_department}
+        </Typography>
+      )}
+      <MaxLineTypography
+        maxLine={2}
+        variant="body2"
+        sx={{ color: "text.secondary" }}
+      >
+        {person.known_for
+          ?.map((video) => video.title || (video as { name?: string }).name)
+          .filter(Boolean)
+          .join(", ")}
+      </MaxLineTypography>
+    </Stack>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Tooltip from "@mui/material/Tooltip";
+import { SvgIconProps } from "@mui/material/SvgIcon";
+import { IconButtonProps } from "@mui/material/IconButton";
+import ThumbDownOffAltIcon from "@mui/icons-material/ThumbDownOffAlt";
+import ThumbDownIcon from "@mui/icons-material/ThumbDown";
+import ThumbUpOffAltIcon from "@mui/icons-material/ThumbUpOffAlt";
+import ThumbUpIcon from "@mui/icons-material/ThumbUp";
+import FavoriteBorderIcon from "@mui/icons-material/FavoriteBorder";
+import FavoriteIcon from "@mui/icons-material/Favorite";
+import NetflixIconButton from "./NetflixIconButton";
+import useRating from "src/hooks/useRatings";
+import { Movie } from "src/types/Movie";
+import { RATING } from "src/types/Rating";
+
+const RATING_OPTIONS = [
+  {
+    rating: RATING.NotForMe,
+    label: "Not for me",
+    Icon: ThumbDownOffAltIcon,
+    ActiveIcon: ThumbDownIcon,
+  },
+  {
+    rating: RATING.Like,
+    label: "I like this",
+    Icon: ThumbUpOffAltIcon,
+    ActiveIcon: ThumbUpIcon,
+  },
+  {
+    rating: RATING.Love,
+    label: "Love this!",
+    Icon: FavoriteBorderIcon,
+    ActiveIcon: FavoriteIcon,
+  },
+];
+
+export function RatingIcon({
+  rating,
+  ...others
+}: SvgIconProps & { rating: RATING }) {
+  const option = RATING_OPTIONS.find((o) => o.rating === rating);
+  return option ? <option.ActiveIcon {...others} /> : null;
+}
+
+interface RatingButtonProps extends IconButtonProps {
+  video: Movie;
+}
+
+export default function RatingButton({ video, ...others }: RatingButtonProps) {
+  const { rating, rate } = useRating(video);
+  const [open, setOpen] = useState(false);
+  const current = RATING_OPTIONS.find((o) => o.rating === rating);
+
+  return (
+    <Box
+      sx={{ position: "relative" }}
+      onMouseEnter={() => setOpen(true)}
+      onMouseLeave={() => setOpen(false)}
+      onFocus={() => setOpen(true)}
+      onBlur={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget)) {
+          setOpen(false);
+        }
+      }}
+    >
+      <NetflixIconButton
+        aria-label={current ? `Rated: ${current.label}` : "Rate this title"}
+        aria-haspopup="true"
+        aria-expanded={open}
+        {...others}
+        onClick={() => setOpen((value) => !value)}
+      >
+        {current ? <current.ActiveIcon /> : <ThumbUpOffAltIcon />}
+      </NetflixIconButton>
+      {open && (
+        <Stack
+          direction="row"
+          spacing={0.5}
+          role="group"
+          aria-label="Rate this title"
+          sx={{
+            p: 0.5,
+            top: "50%",
+            left: "50%",
+            zIndex: 10,
+            borderRadius: 8,
+            position: "absolute",
+            bgcolor: "#232323",
+            boxShadow: 6,
+            transform: "translate(-50%, -50%)",
+          }}
+        >
+          {RATING_OPTIONS.map((option) => {
+            const selected = option.rating === rating;
+            return (
+              <Tooltip key={option.rating} title={option.label}>
+                <NetflixIconButton
+                  size="small"
+                  aria-label={option.label}
+                  aria-pressed={selected}
+                  onClick={() => {
+                    rate(selected ? null : option.rating);
+                    setOpen(false);
+                  }}
+                  sx={{ border: "none" }}
+                >
+                  {selected ? <option.ActiveIcon /> : <option.Icon />}
+                </NetflixIconButton>
+              </Tooltip>
+            );
+          })}
+        </Stack>
+      )}
+    </Box>
+  );
+}
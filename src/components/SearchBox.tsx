@@ -1,7 +1,10 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { styled } from "@mui/material/styles";
 import InputBase from "@mui/material/InputBase";
 import SearchIcon from "@mui/icons-material/Search";
+import useDebounce from "src/hooks/useDebounce";
+import { MAIN_PATH, SEARCH_DEBOUNCE_MS } from "src/constant";
 
 const Search = styled("div")(({ theme }) => ({
   position: "relative",
@@ -34,19 +37,57 @@ const StyledInputBase = styled(InputBase)(({ theme }) => ({
 }));
 
 export default function SearchBox() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const isSearchPage = location.pathname === `/${MAIN_PATH.search}`;
+  const urlQuery = isSearchPage ? searchParams.get("q") ?? "" : "";
+
   const [isFocused, setIsFocused] = useState(false);
+  const [query, setQuery] = useState(urlQuery);
+  const debouncedQuery = useDebounce(query, SEARCH_DEBOUNCE_MS);
   const searchInputRef = useRef<HTMLInputElement>();
 
+  // Keep the input in sync when the URL changes from outside (back/forward, shared link)
+  useEffect(() => {
+    if (urlQuery !== debouncedQuery.trim()) {
+      setQuery(urlQuery);
+    }
+  }, [urlQuery]);
+
+  const submitQuery = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed === urlQuery) {
+      return;
+    }
+    if (trimmed) {
+      // Only the first keystroke pushes a history entry, refinements replace it
+      navigate(`/${MAIN_PATH.search}?q=${encodeURIComponent(trimmed)}`, {
+        replace: isSearchPage,
+      });
+    } else if (isSearchPage) {
+      navigate(`/${MAIN_PATH.browse}`, { replace: true });
+    }
+  };
+
+  useEffect(() => {
+    submitQuery(debouncedQuery);
+  }, [debouncedQuery]);
+
   const handleClickSearchIcon = () => {
     if (!isFocused) {
       searchInputRef.current?.focus();
     }
   };
 
+  const isExpanded = isFocused || !!query;
+
   return (
     <Search
       sx={
-        isFocused ? { border: "1px solid white", backgroundColor: "black" } : {}
+        isExpanded
+          ? { border: "1px solid white", backgroundColor: "black" }
+          : {}
       }
     >
       <SearchIconWrapper onClick={handleClickSearchIcon}>
@@ -55,6 +96,21 @@ export default function SearchBox() {
       <StyledInputBase
         inputRef={searchInputRef}
         placeholder="Titles, people, genres"
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value);
+        }}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            submitQuery(query);
+          } else if (event.key === "Escape") {
+            setQuery("");
+            searchInputRef.current?.blur();
+          }
+        }}
+        sx={
+          query ? { "& .NetflixInputBase-input": { width: "auto" } } : undefined
+        }
         inputProps={{
           "aria-label": "search",
           onFocus: () => {
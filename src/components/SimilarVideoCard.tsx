@@ -2,13 +2,16 @@ import Stack from "@mui/material/Stack";
 import Card from "@mui/material/Card";
 import CardContent from "@mui/material/CardContent";
 import Typography from "@mui/material/Typography";
-import AddIcon from "@mui/icons-material/Add";
 import { Movie } from "src/types/Movie";
-import NetflixIconButton from "./NetflixIconButton";
+import MyListButton from "./MyListButton";
+import RatingButton from "./RatingButton";
 import MaxLineTypography from "./MaxLineTypography";
 import { formatMinuteToReadable, getRandomNumber } from "src/utils/common";
 import AgeLimitChip from "./AgeLimitChip";
 import { useGetConfigurationQuery } from "src/store/slices/configuration";
+import useCertification from "src/hooks/useCertification";
+import useMatchScore from "src/hooks/useMatchScore";
+import { getMediaType } from "src/utils/media";
 
 interface SimilarVideoCardProps {
   video: Movie;
@@ -16,6 +19,8 @@ interface SimilarVideoCardProps {
 
 export default function SimilarVideoCard({ video }: SimilarVideoCardProps) {
   const { data: configuration } = useGetConfigurationQuery(undefined);
+  const matchScore = useMatchScore(video);
+  const certification = useCertification(getMediaType(video), video.id);
 
   return (
     <Card>
@@ -72,18 +77,19 @@ export default function SimilarVideoCard({ video }: SimilarVideoCardProps) {
               <Typography
                 variant="subtitle2"
                 sx={{ color: "success.main" }}
-              >{`${getRandomNumber(100)}% Match`}</Typography>
+              >{`${matchScore}% Match`}</Typography>
               <Stack direction="row" spacing={1} alignItems="center">
-                <AgeLimitChip label={`${getRandomNumber(20)}+`} />
+                {certification && <AgeLimitChip label={certification} />}
                 <Typography variant="body2">
                   {video.release_date.substring(0, 4)}
                 </Typography>
               </Stack>
             </div>
             <div style={{ flexGrow: 1 }} />
-            <NetflixIconButton>
-              <AddIcon />
-            </NetflixIconButton>
+            <Stack direction="row" spacing={1}>
+              <MyListButton video={video} />
+              <RatingButton video={video} />
+            </Stack>
           </Stack>
           <MaxLineTypography maxLine={4} variant="subtitle2">
             {video.overview}
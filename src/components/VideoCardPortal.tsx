@@ -5,22 +5,24 @@ import CardContent from "@mui/material/CardContent";
 import Typography from "@mui/material/Typography";
 import VolumeUpIcon from "@mui/icons-material/VolumeUp";
 import PlayCircleIcon from "@mui/icons-material/PlayCircle";
-import ThumbUpOffAltIcon from "@mui/icons-material/ThumbUpOffAlt";
-import AddIcon from "@mui/icons-material/Add";
 import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
 import { Movie } from "src/types/Movie";
 import { usePortal } from "src/providers/PortalProvider";
 import { useDetailModal } from "src/providers/DetailModalProvider";
 import { formatMinuteToReadable, getRandomNumber } from "src/utils/common";
 import NetflixIconButton from "./NetflixIconButton";
+import MyListButton from "./MyListButton";
+import RatingButton from "./RatingButton";
 import MaxLineTypography from "./MaxLineTypography";
 import AgeLimitChip from "./AgeLimitChip";
 import QualityChip from "./QualityChip";
 import GenreBreadcrumbs from "./GenreBreadcrumbs";
 import { useGetConfigurationQuery } from "src/store/slices/configuration";
-import { MEDIA_TYPE } from "src/types/Common";
 import { useGetGenresQuery } from "src/store/slices/genre";
 import { MAIN_PATH } from "src/constant";
+import { getMediaType } from "src/utils/media";
+import useCertification from "src/hooks/useCertification";
+import useMatchScore from "src/hooks/useMatchScore";
 
 interface VideoCardModalProps {
   video: Movie;
@@ -32,9 +34,12 @@ export default function VideoCardModal({
   anchorElement,
 }: VideoCardModalProps) {
   const navigate = useNavigate();
+  const mediaType = getMediaType(video);
 
   const { data: configuration } = useGetConfigurationQuery(undefined);
-  const { data: genres } = useGetGenresQuery(MEDIA_TYPE.Movie);
+  const { data: genres } = useGetGenresQuery(mediaType);
+  const matchScore = useMatchScore(video);
+  const certification = useCertification(mediaType, video.id);
   const setPortal = usePortal();
   const rect = anchorElement.getBoundingClientRect();
   const { setDetailType } = useDetailModal();
@@ -98,20 +103,18 @@ export default function VideoCardModal({
           <Stack direction="row" spacing={1}>
             <NetflixIconButton
               sx={{ p: 0 }}
-              onClick={() => navigate(`/${MAIN_PATH.watch}/movie/${video.id}`)}
+              onClick={() =>
+                navigate(`/${MAIN_PATH.watch}/${mediaType}/${video.id}`)
+              }
             >
               <PlayCircleIcon sx={{ width: 40, height: 40 }} />
             </NetflixIconButton>
-            <NetflixIconButton>
-              <AddIcon />
-            </NetflixIconButton>
-            <NetflixIconButton>
-              <ThumbUpOffAltIcon />
-            </NetflixIconButton>
+            <MyListButton video={video} />
+            <RatingButton video={video} />
             <div style={{ flexGrow: 1 }} />
             <NetflixIconButton
               onClick={() => {
-                setDetailType({ mediaType: MEDIA_TYPE.Movie, id: video.id });
+                setDetailType({ mediaType, id: video.id });
               }}
             >
               <ExpandMoreIcon />
@@ -121,8 +124,8 @@ export default function VideoCardModal({
             <Typography
               variant="subtitle1"
               sx={{ color: "success.main" }}
-            >{`${getRandomNumber(100)}% Match`}</Typography>
-            <AgeLimitChip label={`${getRandomNumber(20)}+`} />
+            >{`${matchScore}% Match`}</Typography>
+            {certification && <AgeLimitChip label={certification} />}
             <Typography variant="subtitle2">{`${formatMinuteToReadable(
               getRandomNumber(180)
             )}`}</Typography>
@@ -3,16 +3,23 @@ import { Movie } from "src/types/Movie";
 import { usePortal } from "src/providers/PortalProvider";
 import { useGetConfigurationQuery } from "src/store/slices/configuration";
 import VideoItemWithHoverPure from "./VideoItemWithHoverPure";
+import { RatingIcon } from "./RatingButton";
+import useRating from "src/hooks/useRatings";
 interface VideoItemWithHoverProps {
   video: Movie;
+  progress?: number;
 }
 
-export default function VideoItemWithHover({ video }: VideoItemWithHoverProps) {
+export default function VideoItemWithHover({
+  video,
+  progress,
+}: VideoItemWithHoverProps) {
   const setPortal = usePortal();
   const elementRef = useRef<HTMLDivElement>(null);
   const [isHovered, setIsHovered] = useState(false);
 
   const { data: configuration } = useGetConfigurationQuery(undefined);
+  const { rating } = useRating(video);
 
   useEffect(() => {
     if (isHovered) {
@@ -24,6 +31,10 @@ export default function VideoItemWithHover({ video }: VideoItemWithHoverProps) {
     <VideoItemWithHoverPure
       ref={elementRef}
       handleHover={setIsHovered}
+      progress={progress}
+      badge={
+        rating ? <RatingIcon rating={rating} fontSize="small" /> : undefined
+      }
       src={`${configuration?.images.base_url}w300${video.backdrop_path}`}
     />
   );
@@ -1,9 +1,12 @@
-import { PureComponent, ForwardedRef, forwardRef } from "react";
+import { PureComponent, ForwardedRef, forwardRef, ReactNode } from "react";
 
 type VideoItemWithHoverPureType = {
   src: string;
   innerRef: ForwardedRef<HTMLDivElement>;
   handleHover: (value: boolean) => void;
+  progress?: number;
+  // Small indicator in the top corner, e.g. the viewer's rating
+  badge?: ReactNode;
 };
 
 class VideoItemWithHoverPure extends PureComponent<VideoItemWithHoverPureType> {
@@ -38,6 +41,44 @@ class VideoItemWithHoverPure extends PureComponent<VideoItemWithHoverPureType> {
             this.props.handleHover(false);
           }}
         />
+        {this.props.badge && (
+          <div
+            style={{
+              top: 6,
+              right: 6,
+              padding: 4,
+              display: "flex",
+              color: "white",
+              position: "absolute",
+              borderRadius: "50%",
+              pointerEvents: "none",
+              backgroundColor: "rgba(0, 0, 0, 0.6)",
+            }}
+          >
+            {this.props.badge}
+          </div>
+        )}
+        {this.props.progress !== undefined && (
+          <div
+            style={{
+              left: "8%",
+              right: "8%",
+              bottom: 8,
+              height: 3,
+              position: "absolute",
+              backgroundColor: "rgba(255, 255, 255, 0.4)",
+              pointerEvents: "none",
+            }}
+          >
+            <div
+              style={{
+                width: `${Math.round(this.props.progress * 100)}%`,
+                height: "100%",
+                backgroundColor: "#E50914",
+              }}
+            />
+          </div>
+        )}
       </div>
     );
   }
@@ -1,4 +1,5 @@
 import * as React from "react";
+import { useNavigate } from "react-router-dom";
 import AppBar from "@mui/material/AppBar";
 import Box from "@mui/material/Box";
 import Stack from "@mui/material/Stack";
@@ -7,19 +8,31 @@ import IconButton from "@mui/material/IconButton";
 import Typography from "@mui/material/Typography";
 import Menu from "@mui/material/Menu";
 import MenuIcon from "@mui/icons-material/Menu";
-import Avatar from "@mui/material/Avatar";
+import Divider from "@mui/material/Divider";
 import Tooltip from "@mui/material/Tooltip";
 import MenuItem from "@mui/material/MenuItem";
 import useOffSetTop from "src/hooks/useOffSetTop";
-import { APP_BAR_HEIGHT } from "src/constant";
+import useActiveProfile from "src/hooks/useActiveProfile";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import { setActiveProfile } from "src/store/slices/profiles";
+import { APP_BAR_HEIGHT, MAIN_PATH } from "src/constant";
 import Logo from "../Logo";
 import SearchBox from "../SearchBox";
 import NetflixNavigationLink from "../NetflixNavigationLink";
+import ProfileAvatar from "../profiles/ProfileAvatar";
 
-const pages = ["My List", "Movies", "Tv Shows"];
+const pages = [
+  { name: "My List", path: `/${MAIN_PATH.myList}` },
+  { name: "Movies", path: `/${MAIN_PATH.browse}/movies` },
+  { name: "Tv Shows", path: `/${MAIN_PATH.browse}/tv` },
+];
 
 const MainHeader = () => {
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
   const isOffset = useOffSetTop(APP_BAR_HEIGHT);
+  const activeProfile = useActiveProfile();
+  const profiles = useAppSelector((state) => state.profiles.profiles);
 
   const [anchorElNav, setAnchorElNav] = React.useState<null | HTMLElement>(
     null
@@ -43,6 +56,16 @@ const MainHeader = () => {
     setAnchorElUser(null);
   };
 
+  const handleSwitchProfile = (profileId: string | null) => {
+    handleCloseUserMenu();
+    dispatch(setActiveProfile(profileId));
+  };
+
+  const handleNavigateFromMenu = (path: string) => {
+    handleCloseUserMenu();
+    navigate(path);
+  };
+
   return (
     <AppBar
       sx={{
@@ -91,8 +114,14 @@ const MainHeader = () => {
             }}
           >
             {pages.map((page) => (
-              <MenuItem key={page} onClick={handleCloseNavMenu}>
-                <Typography textAlign="center">{page}</Typography>
+              <MenuItem
+                key={page.name}
+                onClick={() => {
+                  handleCloseNavMenu();
+                  navigate(page.path);
+                }}
+              >
+                <Typography textAlign="center">{page.name}</Typography>
               </MenuItem>
             ))}
           </Menu>
@@ -120,21 +149,21 @@ const MainHeader = () => {
         >
           {pages.map((page) => (
             <NetflixNavigationLink
-              to=""
+              to={page.path}
               variant="subtitle1"
-              key={page}
+              key={page.name}
               onClick={handleCloseNavMenu}
             >
-              {page}
+              {page.name}
             </NetflixNavigationLink>
           ))}
         </Stack>
 
         <Box sx={{ flexGrow: 0, display: "flex", gap: 2 }}>
           <SearchBox />
-          <Tooltip title="Open settings">
+          <Tooltip title={activeProfile?.name ?? "Open settings"}>
             <IconButton onClick={handleOpenUserMenu} sx={{ p: 0 }}>
-              <Avatar alt="user_avatar" src="/avatar.png" variant="rounded" />
+              {activeProfile && <ProfileAvatar profile={activeProfile} />}
             </IconButton>
           </Tooltip>
           <Menu
@@ -153,11 +182,43 @@ const MainHeader = () => {
             open={Boolean(anchorElUser)}
             onClose={handleCloseUserMenu}
           >
-            {["Account", "Logout"].map((setting) => (
-              <MenuItem key={setting} onClick={handleCloseUserMenu}>
-                <Typography textAlign="center">{setting}</Typography>
-              </MenuItem>
-            ))}
+            {profiles
+              .filter((profile) => profile.id !== activeProfile?.id)
+              .map((profile) => (
+                <MenuItem
+                  key={profile.id}
+                  onClick={() => handleSwitchProfile(profile.id)}
+                >
+                  <ProfileAvatar
+                    profile={profile}
+                    sx={{ width: 32, height: 32, mr: 1.5 }}
+                  />
+                  <Typography textAlign="center">{profile.name}</Typography>
+                </MenuItem>
+              ))}
+            {profiles.length > 1 && <Divider />}
+            <MenuItem onClick={() => handleSwitchProfile(null)}>
+              <Typography textAlign="center">Manage Profiles</Typography>
+            </MenuItem>
+            <MenuItem
+              onClick={() => handleNavigateFromMenu(`/${MAIN_PATH.history}`)}
+            >
+              <Typography textAlign="center">Watch History</Typography>
+            </MenuItem>
+            <MenuItem
+              onClick={() =>
+                handleNavigateFromMenu(`/${MAIN_PATH.settings}/addons`)
+              }
+            >
+              <Typography textAlign="center">Stremio Addons</Typography>
+            </MenuItem>
+            <MenuItem
+              onClick={() =>
+                handleNavigateFromMenu(`/${MAIN_PATH.settings}/markers`)
+              }
+            >
+              <Typography textAlign="center">Skip Markers</Typography>
+            </MenuItem>
           </Menu>
         </Box>
       </Toolbar>
@@ -0,0 +1,31 @@
+import Avatar, { AvatarProps } from "@mui/material/Avatar";
+import { Profile } from "src/types/Profile";
+
+interface ProfileAvatarProps extends AvatarProps {
+  profile: Pick<Profile, "name" | "avatar">;
+}
+
+export default function ProfileAvatar({
+  profile,
+  sx,
+  ...others
+}: ProfileAvatarProps) {
+  const isImage = profile.avatar.startsWith("/");
+
+  return (
+    <Avatar
+      alt={profile.name}
+      variant="rounded"
+      src={isImage ? profile.avatar : undefined}
+      {...others}
+      sx={{
+        color: "white",
+        fontWeight: 700,
+        ...(!isImage && { bgcolor: profile.avatar }),
+        ...sx,
+      }}
+    >
+      {profile.name.charAt(0).toUpperCase()}
+    </Avatar>
+  );
+}
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import Stack from "@mui/material/Stack";
+import Button from "@mui/material/Button";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import TextField from "@mui/material/TextField";
+import Checkbox from "@mui/material/Checkbox";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import ButtonBase from "@mui/material/ButtonBase";
+import Typography from "@mui/material/Typography";
+import MenuItem from "@mui/material/MenuItem";
+import ProfileAvatar from "./ProfileAvatar";
+import {
+  KIDS_MAX_MATURITY_AGE,
+  MATURITY_LEVELS,
+  PROFILE_AVATARS,
+} from "src/constant";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import {
+  addProfile,
+  deleteProfile,
+  getMaturityCeiling,
+  updateProfile,
+} from "src/store/slices/profiles";
+import { Profile } from "src/types/Profile";
+
+interface ProfileEditorDialogProps {
+  open: boolean;
+  // Editing an existing profile when set, creating a new one otherwise
+  profile?: Profile;
+  onClose: () => void;
+}
+
+export default function ProfileEditorDialog({
+  open,
+  profile,
+  onClose,
+}: ProfileEditorDialogProps) {
+  const dispatch = useAppDispatch();
+  const profileCount = useAppSelector(
+    (state) => state.profiles.profiles.length
+  );
+  const [name, setName] = useState("");
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [isKids, setIsKids] = useState(false);
+  const [maxMaturityAge, setMaxMaturityAge] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName(profile?.name ?? "");
+      setAvatar(
+        profile?.avatar ??
+          PROFILE_AVATARS[profileCount % PROFILE_AVATARS.length]
+      );
+      setIsKids(profile?.isKids ?? false);
+      setMaxMaturityAge(getMaturityCeiling(profile));
+    }
+  }, [open, profile]);
+
+  const trimmedName = name.trim();
+
+  const handleSave = () => {
+    if (!trimmedName) {
+      return;
+    }
+    if (profile) {
+      dispatch(
+        updateProfile({
+          id: profile.id,
+          changes: { name: trimmedName, avatar, isKids, maxMaturityAge },
+        })
+      );
+    } else {
+      dispatch(
+        addProfile({ name: trimmedName, avatar, isKids, maxMaturityAge })
+      );
+    }
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (profile) {
+      dispatch(deleteProfile(profile.id));
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>{profile ? "Edit Profile" : "Add Profile"}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={3} sx={{ pt: 1 }}>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <ProfileAvatar
+              profile={{ name: trimmedName || "?", avatar }}
+              sx={{ width: 72, height: 72, fontSize: 32 }}
+            />
+            <TextField
+              autoFocus
+              fullWidth
+              label="Name"
+              value={name}
+              inputProps={{ maxLength: 24 }}
+              onChange={(event) => setName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  handleSave();
+                }
+              }}
+            />
+          </Stack>
+          <div>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Avatar
+            </Typography>
+            <Stack direction="row" spacing={1} flexWrap="wrap">
+              {PROFILE_AVATARS.map((option) => (
+                <ButtonBase
+                  key={option}
+                  aria-label={`Choose avatar ${option}`}
+                  onClick={() => setAvatar(option)}
+                  sx={{
+                    borderRadius: 1,
+                    outline: option === avatar ? "2px solid white" : "none",
+                  }}
+                >
+                  <ProfileAvatar
+                    profile={{ name: trimmedName || "?", avatar: option }}
+                  />
+                </ButtonBase>
+              ))}
+            </Stack>
+          </div>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={isKids}
+                onChange={(event) => {
+                  setIsKids(event.target.checked);
+                  // Kids profiles never start out above the kids ceiling
+                  if (
+                    event.target.checked &&
+                    (maxMaturityAge === null ||
+                      maxMaturityAge > KIDS_MAX_MATURITY_AGE)
+                  ) {
+                    setMaxMaturityAge(KIDS_MAX_MATURITY_AGE);
+                  }
+                }}
+              />
+            }
+            label="Kids profile"
+          />
+          <TextField
+            select
+            label="Maturity rating"
+            value={maxMaturityAge ?? ""}
+            onChange={(event) =>
+              setMaxMaturityAge(
+                event.target.value === "" ? null : Number(event.target.value)
+              )
+            }
+            helperText="Titles rated above this level are hidden for this profile."
+          >
+            {MATURITY_LEVELS.filter(
+              (level) =>
+                !isKids ||
+                (level.maxAge !== null && level.maxAge <= KIDS_MAX_MATURITY_AGE)
+            ).map((level) => (
+              <MenuItem key={level.label} value={level.maxAge ?? ""}>
+                {level.label}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {profile && (
+          <Button
+            color="error"
+            onClick={handleDelete}
+            disabled={profileCount <= 1}
+            sx={{ mr: "auto" }}
+          >
+            Delete Profile
+          </Button>
+        )}
+        <Button color="inherit" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color="inherit"
+          onClick={handleSave}
+          disabled={!trimmedName}
+          sx={{ color: "black" }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
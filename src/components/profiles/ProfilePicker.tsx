@@ -0,0 +1,150 @@
+import { useState } from "react";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Button from "@mui/material/Button";
+import ButtonBase from "@mui/material/ButtonBase";
+import Typography from "@mui/material/Typography";
+import AddCircleIcon from "@mui/icons-material/AddCircle";
+import EditIcon from "@mui/icons-material/Edit";
+import Logo from "src/components/Logo";
+import ProfileAvatar from "./ProfileAvatar";
+import ProfileEditorDialog from "./ProfileEditorDialog";
+import { MAX_PROFILES } from "src/constant";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import { setActiveProfile } from "src/store/slices/profiles";
+import { Profile } from "src/types/Profile";
+
+const TILE_SIZE = { xs: 84, sm: 120, md: 150 };
+
+export default function ProfilePicker() {
+  const dispatch = useAppDispatch();
+  const profiles = useAppSelector((state) => state.profiles.profiles);
+  const [isManaging, setIsManaging] = useState(false);
+  const [editor, setEditor] = useState<{ open: boolean; profile?: Profile }>({
+    open: false,
+  });
+
+  const handleSelect = (profile: Profile) => {
+    if (isManaging) {
+      setEditor({ open: true, profile });
+    } else {
+      dispatch(setActiveProfile(profile.id));
+    }
+  };
+
+  return (
+    <Box
+      sx={{
+        minHeight: "100vh",
+        display: "flex",
+        flexDirection: "column",
+        bgcolor: "background.default",
+      }}
+    >
+      <Box sx={{ px: "60px", py: 3 }}>
+        <Logo />
+      </Box>
+      <Stack
+        spacing={5}
+        alignItems="center"
+        justifyContent="center"
+        sx={{ flexGrow: 1, pb: 10 }}
+      >
+        <Typography variant="h3" sx={{ color: "text.primary" }}>
+          {isManaging ? "Manage Profiles:" : "Who's watching?"}
+        </Typography>
+        <Stack
+          direction="row"
+          spacing={{ xs: 2, sm: 3 }}
+          flexWrap="wrap"
+          justifyContent="center"
+        >
+          {profiles.map((profile) => (
+            <ButtonBase
+              key={profile.id}
+              onClick={() => handleSelect(profile)}
+              sx={{
+                flexDirection: "column",
+                color: "text.secondary",
+                "&:hover, &:focus-visible": {
+                  color: "text.primary",
+                  "& .NetflixAvatar-root": { outline: "3px solid white" },
+                },
+              }}
+            >
+              <Box sx={{ position: "relative" }}>
+                <ProfileAvatar
+                  profile={profile}
+                  sx={{
+                    width: TILE_SIZE,
+                    height: TILE_SIZE,
+                    fontSize: { xs: 36, sm: 56 },
+                  }}
+                />
+                {isManaging && (
+                  <Box
+                    sx={{
+                      top: 0,
+                      left: 0,
+                      right: 0,
+                      bottom: 0,
+                      display: "flex",
+                      alignItems: "center",
+                      justifyContent: "center",
+                      position: "absolute",
+                      bgcolor: "rgba(0, 0, 0, 0.5)",
+                    }}
+                  >
+                    <EditIcon sx={{ color: "white", fontSize: 36 }} />
+                  </Box>
+                )}
+              </Box>
+              <Typography sx={{ mt: 1 }}>{profile.name}</Typography>
+              {profile.isKids && (
+                <Typography variant="caption" sx={{ color: "success.main" }}>
+                  Kids
+                </Typography>
+              )}
+            </ButtonBase>
+          ))}
+          {profiles.length < MAX_PROFILES && (
+            <ButtonBase
+              onClick={() => setEditor({ open: true })}
+              sx={{
+                flexDirection: "column",
+                color: "text.secondary",
+                "&:hover, &:focus-visible": { color: "text.primary" },
+              }}
+            >
+              <Box
+                sx={{
+                  width: TILE_SIZE,
+                  height: TILE_SIZE,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                }}
+              >
+                <AddCircleIcon sx={{ fontSize: { xs: 48, sm: 72 } }} />
+              </Box>
+              <Typography sx={{ mt: 1 }}>Add Profile</Typography>
+            </ButtonBase>
+          )}
+        </Stack>
+        <Button
+          variant="outlined"
+          color="inherit"
+          onClick={() => setIsManaging(!isManaging)}
+          sx={{ color: "text.secondary", letterSpacing: 2, px: 3 }}
+        >
+          {isManaging ? "Done" : "Manage Profiles"}
+        </Button>
+      </Stack>
+      <ProfileEditorDialog
+        open={editor.open}
+        profile={editor.profile}
+        onClose={() => setEditor({ open: false })}
+      />
+    </Box>
+  );
+}
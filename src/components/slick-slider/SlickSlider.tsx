@@ -5,16 +5,20 @@ import { motion } from "framer-motion";
 import { styled, Theme, useTheme } from "@mui/material/styles";
 import Box from "@mui/material/Box";
 import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
 
 import CustomNavigation from "./CustomNavigation";
 import VideoItemWithHover from "src/components/VideoItemWithHover";
-import { ARROW_MAX_WIDTH } from "src/constant";
+import { ARROW_MAX_WIDTH, MAIN_PATH } from "src/constant";
 import NetflixNavigationLink from "src/components/NetflixNavigationLink";
 import MotionContainer from "src/components/animate/MotionContainer";
 import { varFadeIn } from "src/components/animate/variants/fade/FadeIn";
 import { CustomGenre, Genre } from "src/types/Genre";
 import { Movie } from "src/types/Movie";
-import { PaginatedMovieResult } from "src/types/Common";
+import { MEDIA_TYPE, PaginatedMovieResult } from "src/types/Common";
+import { getMediaTypeLabel } from "src/utils/media";
+import { useMaturityFilter } from "src/hooks/useCertification";
+import { useWithoutDisliked } from "src/hooks/useRatings";
 
 const RootStyle = styled("div")(() => ({
   position: "relative",
@@ -51,12 +55,13 @@ const StyledSlider = styled(Slider)(
 
 interface SlideItemProps {
   item: Movie;
+  progress?: number;
 }
 
-function SlideItem({ item }: SlideItemProps) {
+function SlideItem({ item, progress }: SlideItemProps) {
   return (
     <Box sx={{ pr: { xs: 0.5, sm: 1 } }}>
-      <VideoItemWithHover video={item} />
+      <VideoItemWithHover video={item} progress={progress} />
     </Box>
   );
 }
@@ -64,14 +69,25 @@ function SlideItem({ item }: SlideItemProps) {
 interface SlickSliderProps {
   data: PaginatedMovieResult;
   genre: Genre | CustomGenre;
+  mediaType?: MEDIA_TYPE;
   handleNext: (page: number) => void;
+  // Custom rows (e.g. Continue Watching) have a plain title and no genre page
+  title?: string;
+  getItemProgress?: (item: Movie) => number | undefined;
 }
-export default function SlickSlider({ data, genre }: SlickSliderProps) {
+export default function SlickSlider({
+  data,
+  genre,
+  mediaType = MEDIA_TYPE.Movie,
+  title,
+  getItemProgress,
+}: SlickSliderProps) {
   const sliderRef = useRef<Slider>(null);
   const [activeSlideIndex, setActiveSlideIndex] = useState(0);
   const [showExplore, setShowExplore] = useState(false);
   const [isEnd, setIsEnd] = useState(false);
   const theme = useTheme();
+  const videos = useWithoutDisliked(useMaturityFilter(data.results));
 
   const beforeChange = async (currentIndex: number, nextIndex: number) => {
     if (currentIndex < nextIndex) {
@@ -138,7 +154,7 @@ export default function SlickSlider({ data, genre }: SlickSliderProps) {
 
   return (
     <Box sx={{ overflow: "hidden", height: "100%", zIndex: 1 }}>
-      {data.results.length > 0 && (
+      {videos.length > 0 && (
         <>
           <Stack
             spacing={2}
@@ -146,35 +162,44 @@ export default function SlickSlider({ data, genre }: SlickSliderProps) {
             alignItems="center"
             sx={{ mb: 2, pl: { xs: "30px", sm: "60px" } }}
           >
-            <NetflixNavigationLink
-              variant="h5"
-              to={`/genre/${
-                genre.id || genre.name.toLowerCase().replace(" ", "_")
-              }`}
-              sx={{
-                display: "inline-block",
-                fontWeight: 700,
-              }}
-              onMouseOver={() => {
-                setShowExplore(true);
-              }}
-              onMouseLeave={() => {
-                setShowExplore(false);
-              }}
-            >
-              {`${genre.name} Movies `}
-              <MotionContainer
-                open={showExplore}
-                initial="initial"
-                sx={{ display: "inline", color: "success.main" }}
+            {title ? (
+              <Typography
+                variant="h5"
+                sx={{ color: "text.primary", fontWeight: 700 }}
+              >
+                {title}
+              </Typography>
+            ) : (
+              <NetflixNavigationLink
+                variant="h5"
+                to={`/${MAIN_PATH.genreExplore}/${mediaType}/${
+                  genre.id || (genre as CustomGenre).apiString
+                }`}
+                sx={{
+                  display: "inline-block",
+                  fontWeight: 700,
+                }}
+                onMouseOver={() => {
+                  setShowExplore(true);
+                }}
+                onMouseLeave={() => {
+                  setShowExplore(false);
+                }}
               >
-                {"Explore All".split("").map((letter, index) => (
-                  <motion.span key={index} variants={varFadeIn}>
-                    {letter}
-                  </motion.span>
-                ))}
-              </MotionContainer>
-            </NetflixNavigationLink>
+                {`${genre.name} ${getMediaTypeLabel(mediaType)} `}
+                <MotionContainer
+                  open={showExplore}
+                  initial="initial"
+                  sx={{ display: "inline", color: "success.main" }}
+                >
+                  {"Explore All".split("").map((letter, index) => (
+                    <motion.span key={index} variants={varFadeIn}>
+                      {letter}
+                    </motion.span>
+                  ))}
+                </MotionContainer>
+              </NetflixNavigationLink>
+            )}
           </Stack>
 
           <RootStyle>
@@ -191,10 +216,14 @@ export default function SlickSlider({ data, genre }: SlickSliderProps) {
                 padding={ARROW_MAX_WIDTH}
                 theme={theme}
               >
-                {data.results
+                {videos
                   .filter((i) => !!i.backdrop_path)
                   .map((item) => (
-                    <SlideItem key={item.id} item={item} />
+                    <SlideItem
+                      key={item.id}
+                      item={item}
+                      progress={getItemProgress?.(item)}
+                    />
                   ))}
               </StyledSlider>
             </CustomNavigation>
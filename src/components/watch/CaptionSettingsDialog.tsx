@@ -0,0 +1,164 @@
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Button from "@mui/material/Button";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import DialogActions from "@mui/material/DialogActions";
+import TextField from "@mui/material/TextField";
+import MenuItem from "@mui/material/MenuItem";
+import usePlayerPreferences from "src/hooks/usePlayerPreferences";
+import { DEFAULT_PLAYER_PREFERENCES } from "src/store/slices/preferences";
+import { CaptionStyle } from "src/types/Preferences";
+import {
+  CAPTION_BACKGROUNDS,
+  CAPTION_COLORS,
+  CAPTION_EDGES,
+  CAPTION_SIZES,
+} from "src/utils/subtitles";
+
+const SIZE_LABELS: Record<CaptionStyle["size"], string> = {
+  small: "Small",
+  medium: "Medium",
+  large: "Large",
+  xlarge: "Extra large",
+};
+
+const BACKGROUND_LABELS: Record<CaptionStyle["background"], string> = {
+  none: "None",
+  semi: "Semi-transparent",
+  opaque: "Opaque",
+};
+
+const EDGE_LABELS: Record<CaptionStyle["edge"], string> = {
+  none: "None",
+  shadow: "Drop shadow",
+  outline: "Outline",
+  raised: "Raised",
+  depressed: "Depressed",
+};
+
+interface CaptionSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function CaptionSettingsDialog({
+  open,
+  onClose,
+}: CaptionSettingsDialogProps) {
+  const { preferences, update } = usePlayerPreferences();
+  const { captionStyle } = preferences;
+
+  const handleChange = (changes: Partial<CaptionStyle>) => {
+    update({ captionStyle: { ...captionStyle, ...changes } });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Caption Style</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ pt: 1 }}>
+          <Box
+            sx={{
+              py: 3,
+              textAlign: "center",
+              borderRadius: 1,
+              background: "linear-gradient(135deg, #3a3a3a, #121212)",
+            }}
+          >
+            <Box
+              component="span"
+              sx={{
+                px: 0.5,
+                color: captionStyle.color,
+                fontSize: `calc(${CAPTION_SIZES[captionStyle.size]} * 0.6)`,
+                bgcolor: CAPTION_BACKGROUNDS[captionStyle.background],
+                textShadow: CAPTION_EDGES[captionStyle.edge],
+              }}
+            >
+              Subtitles will look like this.
+            </Box>
+          </Box>
+          <TextField
+            select
+            size="small"
+            label="Size"
+            value={captionStyle.size}
+            onChange={(event) =>
+              handleChange({
+                size: event.target.value as CaptionStyle["size"],
+              })
+            }
+          >
+            {Object.entries(SIZE_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value}>
+                {label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Color"
+            value={captionStyle.color}
+            onChange={(event) => handleChange({ color: event.target.value })}
+          >
+            {CAPTION_COLORS.map(({ label, value }) => (
+              <MenuItem key={value} value={value}>
+                {label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Background"
+            value={captionStyle.background}
+            onChange={(event) =>
+              handleChange({
+                background: event.target.value as CaptionStyle["background"],
+              })
+            }
+          >
+            {Object.entries(BACKGROUND_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value}>
+                {label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Character edge"
+            value={captionStyle.edge}
+            onChange={(event) =>
+              handleChange({
+                edge: event.target.value as CaptionStyle["edge"],
+              })
+            }
+          >
+            {Object.entries(EDGE_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value}>
+                {label}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          color="inherit"
+          onClick={() =>
+            update({ captionStyle: DEFAULT_PLAYER_PREFERENCES.captionStyle })
+          }
+        >
+          Reset
+        </Button>
+        <Button variant="contained" color="inherit" onClick={onClose}>
+          Done
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+import Stack from "@mui/material/Stack";
+import MenuItem, { MenuItemProps } from "@mui/material/MenuItem";
+import Typography from "@mui/material/Typography";
+import CheckIcon from "@mui/icons-material/Check";
+
+interface CheckMenuItemProps extends MenuItemProps {
+  label: string;
+  secondary?: string;
+}
+
+export default function CheckMenuItem({
+  label,
+  secondary,
+  selected,
+  ...others
+}: CheckMenuItemProps) {
+  return (
+    <MenuItem selected={selected} {...others}>
+      <Stack direction="row" spacing={1.5} alignItems="center" width="100%">
+        <CheckIcon
+          fontSize="small"
+          sx={{ visibility: selected ? "visible" : "hidden" }}
+        />
+        <Typography variant="body2" sx={{ flexGrow: 1 }}>
+          {label}
+        </Typography>
+        {secondary && (
+          <Typography variant="caption" sx={{ color: "grey.500" }}>
+            {secondary}
+          </Typography>
+        )}
+      </Stack>
+    </MenuItem>
+  );
+}
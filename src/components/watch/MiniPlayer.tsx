@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import Player from "video.js/dist/types/player";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import LinearProgress from "@mui/material/LinearProgress";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import PauseIcon from "@mui/icons-material/Pause";
+import CloseIcon from "@mui/icons-material/Close";
+import OpenInFullIcon from "@mui/icons-material/OpenInFull";
+
+import VideoJSPlayer from "./VideoJSPlayer";
+import PlayerControlButton from "./PlayerControlButton";
+import { PROGRESS_SAVE_INTERVAL_MS } from "src/constant";
+import usePlaybackProgress from "src/hooks/usePlaybackProgress";
+import usePlaybackRate from "src/hooks/usePlaybackRate";
+import useWatchHistory from "src/hooks/useWatchHistory";
+import { MiniPlayerState } from "src/providers/MiniPlayerProvider";
+import { WatchLocationState } from "src/types/Playback";
+import { getVideoJsType } from "src/utils/videoSources";
+
+const MINI_PLAYER_WIDTH = 384;
+const MINI_PLAYER_HEIGHT = 216;
+
+interface MiniPlayerProps {
+  state: MiniPlayerState;
+  onClose: () => void;
+}
+
+export default function MiniPlayer({ state, onClose }: MiniPlayerProps) {
+  const navigate = useNavigate();
+  const playerRef = useRef<Player | null>(null);
+  const [player, setPlayer] = useState<Player | null>(null);
+  const lastSaveRef = useRef(0);
+  const [paused, setPaused] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const { save } = usePlaybackProgress(
+    state.mediaType,
+    state.id,
+    state.season,
+    state.episode
+  );
+  const { log: logHistory } = useWatchHistory();
+  usePlaybackRate(player);
+
+  const persistProgress = () => {
+    const player = playerRef.current;
+    if (!player || player.isDisposed()) {
+      return;
+    }
+    const position = player.currentTime();
+    const duration = player.duration();
+    save(position, duration, state.video);
+    if (position > 0 && duration > 0 && isFinite(duration)) {
+      logHistory({
+        id: state.historyId,
+        mediaType: state.mediaType,
+        season: state.season,
+        episode: state.episode,
+        updatedAt: Date.now(),
+        percentWatched: Math.round(Math.min(position / duration, 1) * 100),
+        providerName: state.providerName,
+        video: state.video,
+      });
+    }
+  };
+  const persistProgressRef = useRef(persistProgress);
+  persistProgressRef.current = persistProgress;
+
+  useEffect(() => {
+    return () => {
+      persistProgressRef.current();
+    };
+  }, []);
+
+  const options = useMemo(
+    () => ({
+      preload: "auto",
+      autoplay: true,
+      controls: false,
+      width: MINI_PLAYER_WIDTH,
+      height: MINI_PLAYER_HEIGHT,
+      html5: {
+        vhs: {
+          overrideNative: true,
+        },
+      },
+      sources: [{ src: state.source.url, type: getVideoJsType(state.source) }],
+    }),
+    [state.source]
+  );
+
+  const handleReady = (player: Player) => {
+    playerRef.current = player;
+    setPlayer(player);
+    player.one("loadedmetadata", () => {
+      player.currentTime(state.position);
+    });
+    player.on("play", () => setPaused(false));
+    player.on("pause", () => {
+      setPaused(true);
+      persistProgressRef.current();
+    });
+    player.on("timeupdate", () => {
+      const duration = player.duration();
+      setProgress(duration > 0 ? player.currentTime() / duration : 0);
+      if (Date.now() - lastSaveRef.current > PROGRESS_SAVE_INTERVAL_MS) {
+        lastSaveRef.current = Date.now();
+        persistProgressRef.current();
+      }
+    });
+    player.on("ended", () => {
+      persistProgressRef.current();
+      onClose();
+    });
+  };
+
+  const handleTogglePlay = () => {
+    const player = playerRef.current;
+    if (player?.paused()) {
+      player.play();
+    } else {
+      player?.pause();
+    }
+  };
+
+  const handleExpand = () => {
+    const locationState: WatchLocationState = {
+      bingeGroup: state.bingeGroup,
+      startAt: playerRef.current?.currentTime() ?? state.position,
+    };
+    persistProgressRef.current();
+    navigate(state.watchPath, { state: locationState });
+    onClose();
+  };
+
+  return (
+    <Box
+      role="region"
+      aria-label={`Mini player: ${state.title}`}
+      sx={{
+        right: 24,
+        bottom: 24,
+        zIndex: 1200,
+        position: "fixed",
+        overflow: "hidden",
+        borderRadius: 1,
+        bgcolor: "black",
+        boxShadow: 12,
+        width: MINI_PLAYER_WIDTH,
+        "&:hover .mini-player-controls, &:focus-within .mini-player-controls": {
+          opacity: 1,
+        },
+      }}
+    >
+      <Box sx={{ position: "relative", height: MINI_PLAYER_HEIGHT }}>
+        <VideoJSPlayer options={options} onReady={handleReady} />
+        <Stack
+          className="mini-player-controls"
+          justifyContent="space-between"
+          sx={{
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            opacity: paused ? 1 : 0,
+            position: "absolute",
+            transition: "opacity .3s",
+            bgcolor: "rgba(0, 0, 0, 0.4)",
+          }}
+        >
+          <Stack direction="row" justifyContent="space-between">
+            <PlayerControlButton aria-label="Expand" onClick={handleExpand}>
+              <OpenInFullIcon />
+            </PlayerControlButton>
+            <PlayerControlButton
+              aria-label="Close mini player"
+              onClick={onClose}
+            >
+              <CloseIcon />
+            </PlayerControlButton>
+          </Stack>
+          <Stack alignItems="center">
+            <PlayerControlButton
+              aria-label={paused ? "Play" : "Pause"}
+              onClick={handleTogglePlay}
+            >
+              {paused ? (
+                <PlayArrowIcon fontSize="large" />
+              ) : (
+                <PauseIcon fontSize="large" />
+              )}
+            </PlayerControlButton>
+          </Stack>
+          <Typography
+            variant="subtitle2"
+            noWrap
+            sx={{ px: 1.5, pb: 1, color: "white" }}
+          >
+            {state.title}
+          </Typography>
+        </Stack>
+      </Box>
+      <LinearProgress
+        variant="determinate"
+        value={progress * 100}
+        sx={{
+          height: 3,
+          bgcolor: "grey.800",
+          "& .NetflixLinearProgress-bar": { bgcolor: "#E50914" },
+        }}
+      />
+    </Box>
+  );
+}
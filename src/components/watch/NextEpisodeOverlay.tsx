@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Button from "@mui/material/Button";
+import Typography from "@mui/material/Typography";
+import SkipNextIcon from "@mui/icons-material/SkipNext";
+import MaxLineTypography from "src/components/MaxLineTypography";
+import { NEXT_EPISODE_COUNTDOWN_SECONDS } from "src/constant";
+import { useGetConfigurationQuery } from "src/store/slices/configuration";
+import { NextEpisode } from "src/hooks/useNextEpisode";
+import { formatEpisodeLabel } from "src/utils/media";
+
+interface NextEpisodeOverlayProps {
+  nextEpisode: NextEpisode;
+  fallbackImage?: string | null;
+  onPlayNext: () => void;
+  onDismiss: () => void;
+  onCountdownEnd: () => void;
+}
+
+export default function NextEpisodeOverlay({
+  nextEpisode,
+  fallbackImage,
+  onPlayNext,
+  onDismiss,
+  onCountdownEnd,
+}: NextEpisodeOverlayProps) {
+  const { data: configuration } = useGetConfigurationQuery(undefined);
+  const [secondsLeft, setSecondsLeft] = useState(
+    NEXT_EPISODE_COUNTDOWN_SECONDS
+  );
+
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      setSecondsLeft((seconds) => Math.max(seconds - 1, 0));
+    }, 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  useEffect(() => {
+    if (secondsLeft === 0) {
+      onCountdownEnd();
+    }
+  }, [secondsLeft]);
+
+  const image = nextEpisode.detail?.still_path ?? fallbackImage;
+
+  return (
+    <Box
+      sx={{
+        right: { xs: 16, sm: 32 },
+        bottom: 120,
+        zIndex: 10,
+        width: { xs: 260, sm: 340 },
+        position: "absolute",
+        bgcolor: "rgba(20, 20, 20, 0.95)",
+        borderRadius: 1,
+        overflow: "hidden",
+        boxShadow: 8,
+      }}
+    >
+      <Box sx={{ position: "relative", paddingTop: "56.25%" }}>
+        {image && (
+          <img
+            alt={nextEpisode.detail?.name}
+            src={`${configuration?.images.base_url}w300${image}`}
+            style={{
+              top: 0,
+              width: "100%",
+              height: "100%",
+              objectFit: "cover",
+              position: "absolute",
+            }}
+          />
+        )}
+        <Typography
+          variant="h3"
+          sx={{
+            top: "50%",
+            left: "50%",
+            color: "white",
+            fontWeight: 700,
+            position: "absolute",
+            transform: "translate(-50%, -50%)",
+            textShadow: "0 0 8px rgba(0,0,0,0.8)",
+          }}
+        >
+          {secondsLeft}
+        </Typography>
+      </Box>
+      <Stack spacing={1.5} sx={{ p: 2 }}>
+        <Typography variant="caption" sx={{ color: "text.secondary" }}>
+          {`Next Episode · ${formatEpisodeLabel(
+            nextEpisode.season,
+            nextEpisode.episode
+          )}`}
+        </Typography>
+        {nextEpisode.detail && (
+          <MaxLineTypography
+            maxLine={1}
+            variant="subtitle1"
+            sx={{ fontWeight: 700 }}
+          >
+            {nextEpisode.detail.name}
+          </MaxLineTypography>
+        )}
+        <Stack direction="row" spacing={1}>
+          <Button
+            color="inherit"
+            variant="contained"
+            startIcon={<SkipNextIcon />}
+            onClick={onPlayNext}
+            sx={{ color: "black", fontWeight: "bold", textTransform: "none" }}
+          >
+            Next Episode
+          </Button>
+          <Button
+            color="inherit"
+            onClick={onDismiss}
+            sx={{ textTransform: "none" }}
+          >
+            Watch Credits
+          </Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+}
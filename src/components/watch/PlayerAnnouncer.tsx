@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import Box from "@mui/material/Box";
+import Fade from "@mui/material/Fade";
+import Typography from "@mui/material/Typography";
+
+const VISIBLE_MS = 1200;
+
+const visuallyHidden = {
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  border: 0,
+  overflow: "hidden",
+  position: "absolute",
+  whiteSpace: "nowrap",
+  clip: "rect(0 0 0 0)",
+} as const;
+
+export interface PlayerAnnouncement {
+  message: string;
+  // Repeating the same message still has to be announced again
+  id: number;
+}
+
+/**
+ * Briefly shows the result of a shortcut over the video and reads it out
+ * to screen readers through a live region.
+ */
+export default function PlayerAnnouncer({
+  announcement,
+}: {
+  announcement: PlayerAnnouncement | null;
+}) {
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    if (!announcement) {
+      return;
+    }
+    setVisible(true);
+    const timeoutId = setTimeout(() => setVisible(false), VISIBLE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [announcement?.id]);
+
+  return (
+    <>
+      <Box role="status" aria-live="polite" sx={visuallyHidden}>
+        {announcement?.message}
+      </Box>
+      <Fade in={visible}>
+        <Box
+          aria-hidden
+          sx={{
+            top: "15%",
+            left: "50%",
+            zIndex: 5,
+            px: 2,
+            py: 1,
+            borderRadius: 1,
+            position: "absolute",
+            pointerEvents: "none",
+            transform: "translateX(-50%)",
+            bgcolor: "rgba(0, 0, 0, 0.7)",
+          }}
+        >
+          <Typography sx={{ color: "white", fontWeight: 700 }}>
+            {announcement?.message}
+          </Typography>
+        </Box>
+      </Fade>
+    </>
+  );
+}
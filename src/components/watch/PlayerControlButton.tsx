@@ -14,6 +14,7 @@ const PlayerControlButton = forwardRef<HTMLButtonElement, IconButtonProps>(
           WebkitTransform: "scale(1.3)",
           transform: "scale(1.3)",
         },
+        "&.Mui-focusVisible": { outline: "2px solid white" },
       }}
       {...others}
     >
@@ -1,7 +1,16 @@
+import { useState } from "react";
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
 import Slider from "@mui/material/Slider";
+import Typography from "@mui/material/Typography";
 import { styled } from "@mui/material/styles";
 
 import { formatTime } from "src/utils/common";
+import { BufferedRange, findCueAt } from "src/utils/seekbar";
+import { SeekbarMarker, ThumbnailCue } from "src/types/Playback";
+
+const RAIL_HEIGHT = 4;
+const PREVIEW_WIDTH = 160;
 
 const StyledSlider = styled(Slider)({
   borderRadius: 0,
@@ -9,10 +18,10 @@ const StyledSlider = styled(Slider)({
     backgroundColor: "red !important",
     border: 0,
   },
+  // The rail is drawn underneath by `PlayerSeekbar` to show buffered ranges
   "& .NetflixSlider-rail": {
     border: "none",
-    backgroundColor: "white !important",
-    opacity: 0.85,
+    backgroundColor: "transparent !important",
   },
   "& .NetflixSlider-thumb": {
     borderRadius: "50%",
@@ -52,28 +61,180 @@ const StyledSlider = styled(Slider)({
   // },
 });
 
+const layerSx = {
+  left: 0,
+  right: 0,
+  top: "50%",
+  height: RAIL_HEIGHT,
+  position: "absolute",
+  pointerEvents: "none",
+  transform: "translateY(-50%)",
+} as const;
+
+function ThumbnailPreview({ cue }: { cue: ThumbnailCue }) {
+  const [x, y, width, height] = cue.xywh ?? [0, 0, PREVIEW_WIDTH, 90];
+  const scale = PREVIEW_WIDTH / width;
+  return (
+    <Box
+      sx={{
+        width: PREVIEW_WIDTH,
+        height: height * scale,
+        overflow: "hidden",
+        borderRadius: 0.5,
+        border: "2px solid white",
+      }}
+    >
+      <Box
+        sx={{
+          width,
+          height,
+          transform: `scale(${scale})`,
+          transformOrigin: "0 0",
+          backgroundImage: `url("${cue.url}")`,
+          backgroundPosition: cue.xywh ? `-${x}px -${y}px` : "center",
+          backgroundSize: cue.xywh ? "auto" : "cover",
+        }}
+      />
+    </Box>
+  );
+}
+
 function PlayerSeekbar({
   playedSeconds,
   duration,
   seekTo,
+  buffered = [],
+  chapters = [],
+  markers = [],
+  thumbnails = [],
 }: {
   playedSeconds: number;
   duration: number;
   seekTo: (value: number) => void;
+  buffered?: BufferedRange[];
+  // Chapters split the rail and name the hovered part
+  chapters?: SeekbarMarker[];
+  // Highlighted points or ranges, e.g. intros
+  markers?: SeekbarMarker[];
+  thumbnails?: ThumbnailCue[];
 }) {
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const toPercent = (time: number) =>
+    duration > 0 ? `${Math.min((time / duration) * 100, 100)}%` : "0%";
+
+  const hoverThumbnail =
+    hoverTime !== null ? findCueAt(thumbnails, hoverTime) : undefined;
+  const hoverChapter =
+    hoverTime !== null ? findCueAt(chapters, hoverTime) : undefined;
+
   return (
-    <StyledSlider
-      valueLabelDisplay="auto"
-      valueLabelFormat={(v) => formatTime(v)}
-      // components={{
-      //   ValueLabel: ValueLabelComponent,
-      // }}
-      value={playedSeconds}
-      max={duration}
-      onChange={(_, value) => {
-        seekTo(value as number);
+    <Box
+      sx={{ position: "relative", display: "flex", alignItems: "center" }}
+      onMouseMove={(event) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const ratio = (event.clientX - rect.left) / rect.width;
+        setHoverTime(Math.min(Math.max(ratio, 0), 1) * duration);
       }}
-    />
+      onMouseLeave={() => setHoverTime(null)}
+    >
+      <Box sx={{ ...layerSx, bgcolor: "rgba(255, 255, 255, 0.3)" }}>
+        {buffered.map(([start, end]) => (
+          <Box
+            key={start}
+            sx={{
+              top: 0,
+              bottom: 0,
+              left: toPercent(start),
+              width: `calc(${toPercent(end)} - ${toPercent(start)})`,
+              position: "absolute",
+              bgcolor: "rgba(255, 255, 255, 0.6)",
+            }}
+          />
+        ))}
+        {markers
+          .filter((marker) => marker.end !== undefined)
+          .map((marker) => (
+            <Box
+              key={`${marker.label}-${marker.start}`}
+              sx={{
+                top: 0,
+                bottom: 0,
+                left: toPercent(marker.start),
+                width: `calc(${toPercent(marker.end ?? 0)} - ${toPercent(
+                  marker.start
+                )})`,
+                position: "absolute",
+                bgcolor: "rgba(255, 213, 79, 0.7)",
+              }}
+            />
+          ))}
+      </Box>
+      <StyledSlider
+        valueLabelDisplay={hoverTime === null ? "auto" : "off"}
+        valueLabelFormat={(v) => formatTime(v)}
+        // components={{
+        //   ValueLabel: ValueLabelComponent,
+        // }}
+        value={playedSeconds}
+        max={duration}
+        aria-label="Seek"
+        getAriaValueText={(v) => `${formatTime(v)} of ${formatTime(duration)}`}
+        onChange={(_, value) => {
+          seekTo(value as number);
+        }}
+      />
+      {/* Gaps between chapters and point markers go over the played track */}
+      <Box sx={layerSx}>
+        {[
+          ...chapters.filter((chapter) => chapter.start > 0),
+          ...markers.filter((marker) => marker.end === undefined),
+        ].map((marker) => (
+          <Box
+            key={`${marker.label}-${marker.start}`}
+            sx={{
+              top: 0,
+              width: 3,
+              bottom: 0,
+              position: "absolute",
+              left: toPercent(marker.start),
+              bgcolor: "rgba(0, 0, 0, 0.8)",
+            }}
+          />
+        ))}
+      </Box>
+      {hoverTime !== null && duration > 0 && (
+        <Stack
+          alignItems="center"
+          spacing={0.5}
+          sx={{
+            bottom: "100%",
+            position: "absolute",
+            pointerEvents: "none",
+            left: `clamp(${PREVIEW_WIDTH / 2}px, ${toPercent(
+              hoverTime
+            )}, calc(100% - ${PREVIEW_WIDTH / 2}px))`,
+            transform: "translateX(-50%)",
+          }}
+        >
+          {hoverThumbnail && <ThumbnailPreview cue={hoverThumbnail} />}
+          {hoverChapter && (
+            <Typography
+              variant="caption"
+              noWrap
+              sx={{ color: "white", maxWidth: PREVIEW_WIDTH, fontWeight: 700 }}
+            >
+              {hoverChapter.label}
+            </Typography>
+          )}
+          <Typography
+            variant="caption"
+            sx={{ px: 0.5, color: "white", bgcolor: "rgba(0, 0, 0, 0.7)" }}
+          >
+            {formatTime(hoverTime)}
+          </Typography>
+        </Stack>
+      )}
+    </Box>
   );
 }
 
@@ -0,0 +1,71 @@
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Button from "@mui/material/Button";
+import Typography from "@mui/material/Typography";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import ReplayIcon from "@mui/icons-material/Replay";
+import { formatTime } from "src/utils/common";
+
+interface ResumePromptProps {
+  title?: string;
+  position: number;
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+export default function ResumePrompt({
+  title,
+  position,
+  onResume,
+  onStartOver,
+}: ResumePromptProps) {
+  return (
+    <Box
+      sx={{
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 10,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        position: "absolute",
+        bgcolor: "rgba(0, 0, 0, 0.7)",
+      }}
+    >
+      <Stack spacing={3} alignItems="center">
+        {title && (
+          <Typography variant="h4" sx={{ color: "white", fontWeight: 700 }}>
+            {title}
+          </Typography>
+        )}
+        <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+          <Button
+            autoFocus
+            color="inherit"
+            variant="contained"
+            startIcon={<PlayArrowIcon />}
+            onClick={onResume}
+            sx={{ color: "black", fontWeight: "bold", textTransform: "none" }}
+          >
+            {`Resume from ${formatTime(position)}`}
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<ReplayIcon />}
+            onClick={onStartOver}
+            sx={{
+              fontWeight: "bold",
+              textTransform: "none",
+              bgcolor: "#6d6d6eb3",
+              "&:hover": { bgcolor: "#6d6d6e66" },
+            }}
+          >
+            Start over
+          </Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,65 @@
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Dialog from "@mui/material/Dialog";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogContent from "@mui/material/DialogContent";
+import Typography from "@mui/material/Typography";
+import { PLAYER_SHORTCUTS } from "src/hooks/usePlayerShortcuts";
+
+interface ShortcutsHelpDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function ShortcutsHelpDialog({
+  open,
+  onClose,
+}: ShortcutsHelpDialogProps) {
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      fullWidth
+      maxWidth="xs"
+      aria-labelledby="player-shortcuts-title"
+      PaperProps={{ sx: { bgcolor: "rgba(20, 20, 20, 0.95)" } }}
+    >
+      <DialogTitle id="player-shortcuts-title">Keyboard shortcuts</DialogTitle>
+      <DialogContent>
+        <Stack spacing={1.5}>
+          {PLAYER_SHORTCUTS.map(({ action, labels, description }) => (
+            <Stack
+              key={action}
+              direction="row"
+              alignItems="center"
+              justifyContent="space-between"
+            >
+              <Typography variant="body2">{description}</Typography>
+              <Stack direction="row" spacing={0.5}>
+                {labels.map((label) => (
+                  <Box
+                    key={label}
+                    component="kbd"
+                    sx={{
+                      px: 1,
+                      py: 0.25,
+                      minWidth: 28,
+                      fontSize: 13,
+                      borderRadius: 0.5,
+                      textAlign: "center",
+                      fontFamily: "inherit",
+                      border: "1px solid #555",
+                      bgcolor: "#2a2a2a",
+                    }}
+                  >
+                    {label}
+                  </Box>
+                ))}
+              </Stack>
+            </Stack>
+          ))}
+        </Stack>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,32 @@
+import Button, { ButtonProps } from "@mui/material/Button";
+import SkipNextIcon from "@mui/icons-material/SkipNext";
+
+export default function SkipSegmentButton({
+  children,
+  sx,
+  ...others
+}: ButtonProps) {
+  return (
+    <Button
+      variant="outlined"
+      color="inherit"
+      startIcon={<SkipNextIcon />}
+      {...others}
+      sx={{
+        right: { xs: 16, sm: 32 },
+        bottom: 120,
+        zIndex: 10,
+        position: "absolute",
+        color: "white",
+        fontWeight: 700,
+        textTransform: "none",
+        bgcolor: "rgba(0, 0, 0, 0.6)",
+        border: "2px solid rgba(255, 255, 255, 0.7)",
+        "&:hover": { bgcolor: "rgba(0, 0, 0, 0.8)", border: "2px solid white" },
+        ...sx,
+      }}
+    >
+      {children}
+    </Button>
+  );
+}
@@ -0,0 +1,53 @@
+import Stack from "@mui/material/Stack";
+import MenuItem, { MenuItemProps } from "@mui/material/MenuItem";
+import Typography from "@mui/material/Typography";
+import CheckIcon from "@mui/icons-material/Check";
+import { parseStremioStreamInfo, StremioStream } from "src/utils/stremio";
+
+interface SourceMenuItemProps extends MenuItemProps {
+  stream: StremioStream;
+}
+
+export default function SourceMenuItem({
+  stream,
+  selected,
+  ...others
+}: SourceMenuItemProps) {
+  const { quality, size, codec } = parseStremioStreamInfo(stream);
+  const details = [quality, size, codec].filter(Boolean).join(" · ");
+  // Titles are often several lines of release info, the first one is enough
+  const title = stream.title?.split("\n")[0];
+
+  return (
+    <MenuItem selected={selected} {...others} sx={{ maxWidth: 420 }}>
+      <Stack direction="row" spacing={1.5} alignItems="center" width="100%">
+        <CheckIcon
+          fontSize="small"
+          sx={{ visibility: selected ? "visible" : "hidden" }}
+        />
+        <Stack sx={{ minWidth: 0 }}>
+          <Typography variant="body2" noWrap sx={{ fontWeight: 700 }}>
+            {stream.addonName ?? stream.name?.split("\n")[0] ?? "Stream"}
+          </Typography>
+          {title && (
+            <Typography variant="caption" noWrap sx={{ color: "grey.400" }}>
+              {title}
+            </Typography>
+          )}
+          <Stack direction="row" spacing={1}>
+            {details && (
+              <Typography variant="caption" sx={{ color: "grey.500" }}>
+                {details}
+              </Typography>
+            )}
+            {stream.behaviorHints?.notWebReady && (
+              <Typography variant="caption" sx={{ color: "warning.main" }}>
+                May not play in the browser
+              </Typography>
+            )}
+          </Stack>
+        </Stack>
+      </Stack>
+    </MenuItem>
+  );
+}
@@ -0,0 +1,68 @@
+import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
+import Button from "@mui/material/Button";
+import Typography from "@mui/material/Typography";
+
+interface StillWatchingPromptProps {
+  title?: string;
+  onContinue: () => void;
+  onExit: () => void;
+}
+
+export default function StillWatchingPrompt({
+  title,
+  onContinue,
+  onExit,
+}: StillWatchingPromptProps) {
+  return (
+    <Box
+      sx={{
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 11,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        position: "absolute",
+        bgcolor: "rgba(0, 0, 0, 0.85)",
+      }}
+    >
+      <Stack
+        spacing={3}
+        alignItems="center"
+        sx={{ px: 2, textAlign: "center" }}
+      >
+        <Typography variant="h4" sx={{ color: "white", fontWeight: 700 }}>
+          {title
+            ? `Are you still watching ${title}?`
+            : "Are you still watching?"}
+        </Typography>
+        <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+          <Button
+            autoFocus
+            color="inherit"
+            variant="contained"
+            onClick={onContinue}
+            sx={{ color: "black", fontWeight: "bold", textTransform: "none" }}
+          >
+            Continue Watching
+          </Button>
+          <Button
+            variant="contained"
+            onClick={onExit}
+            sx={{
+              fontWeight: "bold",
+              textTransform: "none",
+              bgcolor: "#6d6d6eb3",
+              "&:hover": { bgcolor: "#6d6d6e66" },
+            }}
+          >
+            Back to Browse
+          </Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+}
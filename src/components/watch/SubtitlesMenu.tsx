@@ -0,0 +1,150 @@
+import { useRef } from "react";
+import Stack from "@mui/material/Stack";
+import Menu, { MenuProps } from "@mui/material/Menu";
+import MenuItem from "@mui/material/MenuItem";
+import Divider from "@mui/material/Divider";
+import IconButton from "@mui/material/IconButton";
+import Typography from "@mui/material/Typography";
+import ListSubheader from "@mui/material/ListSubheader";
+import CheckIcon from "@mui/icons-material/Check";
+import RemoveIcon from "@mui/icons-material/Remove";
+import AddIcon from "@mui/icons-material/Add";
+import FileUploadOutlinedIcon from "@mui/icons-material/FileUploadOutlined";
+import FormatSizeIcon from "@mui/icons-material/FormatSize";
+import useSubtitles from "src/hooks/useSubtitles";
+import { SUBTITLE_FILE_EXTENSIONS } from "src/utils/subtitles";
+
+const OFFSET_STEP = 0.5;
+
+interface SubtitlesMenuProps
+  extends Pick<MenuProps, "anchorEl" | "open" | "onClose"> {
+  subtitles: ReturnType<typeof useSubtitles>;
+  onOpenCaptionStyle: () => void;
+  onAddFile: (file: File) => void;
+}
+
+export default function SubtitlesMenu({
+  subtitles,
+  onOpenCaptionStyle,
+  onAddFile,
+  onClose,
+  ...others
+}: SubtitlesMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const { tracks, activeTrack, isLoading, offset, setOffset, select } =
+    subtitles;
+
+  const handleClose = () => onClose?.({}, "backdropClick");
+
+  return (
+    <Menu
+      {...others}
+      onClose={onClose}
+      PaperProps={{
+        sx: { bgcolor: "rgba(0, 0, 0, 0.9)", color: "white", minWidth: 240 },
+      }}
+    >
+      <ListSubheader sx={{ bgcolor: "transparent", color: "grey.400" }}>
+        Subtitles
+      </ListSubheader>
+      {[null, ...tracks].map((track) => {
+        const selected = (track?.id ?? null) === (activeTrack?.id ?? null);
+        return (
+          <MenuItem
+            key={track?.id ?? "off"}
+            selected={selected}
+            onClick={() => select(track?.id ?? null)}
+            sx={{ maxWidth: 320 }}
+          >
+            <Stack direction="row" spacing={1.5} alignItems="center">
+              <CheckIcon
+                fontSize="small"
+                sx={{ visibility: selected ? "visible" : "hidden" }}
+              />
+              <Typography variant="body2" noWrap>
+                {track ? track.label : "Off"}
+              </Typography>
+              {track?.origin === "local" && (
+                <Typography variant="caption" sx={{ color: "grey.500" }}>
+                  File
+                </Typography>
+              )}
+            </Stack>
+          </MenuItem>
+        );
+      })}
+      {isLoading && (
+        <MenuItem disabled>
+          <Typography variant="caption">Loading subtitles...</Typography>
+        </MenuItem>
+      )}
+      {activeTrack && [
+        <Divider key="offset-divider" sx={{ borderColor: "grey.800" }} />,
+        <Stack
+          key="offset"
+          direction="row"
+          alignItems="center"
+          justifyContent="space-between"
+          sx={{ px: 2, py: 0.5 }}
+        >
+          <Typography variant="body2">Timing</Typography>
+          <Stack direction="row" alignItems="center">
+            <IconButton
+              size="small"
+              aria-label="Show subtitles earlier"
+              onClick={() => setOffset((value) => value - OFFSET_STEP)}
+            >
+              <RemoveIcon fontSize="small" />
+            </IconButton>
+            <Typography
+              variant="body2"
+              sx={{ width: 56, textAlign: "center" }}
+              aria-live="polite"
+            >
+              {`${offset > 0 ? "+" : ""}${offset.toFixed(1)}s`}
+            </Typography>
+            <IconButton
+              size="small"
+              aria-label="Show subtitles later"
+              onClick={() => setOffset((value) => value + OFFSET_STEP)}
+            >
+              <AddIcon fontSize="small" />
+            </IconButton>
+          </Stack>
+        </Stack>,
+      ]}
+      <Divider sx={{ borderColor: "grey.800" }} />
+      <MenuItem onClick={() => fileInputRef.current?.click()}>
+        <Stack direction="row" spacing={1.5} alignItems="center">
+          <FileUploadOutlinedIcon fontSize="small" />
+          <Typography variant="body2">Load subtitle file...</Typography>
+        </Stack>
+      </MenuItem>
+      <MenuItem
+        onClick={() => {
+          handleClose();
+          onOpenCaptionStyle();
+        }}
+      >
+        <Stack direction="row" spacing={1.5} alignItems="center">
+          <FormatSizeIcon fontSize="small" />
+          <Typography variant="body2">Caption style...</Typography>
+        </Stack>
+      </MenuItem>
+      <input
+        hidden
+        type="file"
+        ref={fileInputRef}
+        accept={SUBTITLE_FILE_EXTENSIONS.join(",")}
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) {
+            onAddFile(file);
+            handleClose();
+          }
+          event.target.value = "";
+        }}
+      />
+    </Menu>
+  );
+}
@@ -1,10 +1,10 @@
+import { useEffect, useRef } from "react";
 import { Box, BoxProps } from "@mui/material";
 
 interface VidsrcPlayerProps extends BoxProps {
-  tmdbId: number;
-  mediaType: "movie" | "tv";
-  season?: number;
-  episode?: number;
+  // Embed URL for the domain picked by the stream resolver, see `getVidsrcUrl`
+  src: string;
+  onReady?: (iframe: HTMLIFrameElement) => void;
 }
 
 /**
@@ -13,29 +13,23 @@ interface VidsrcPlayerProps extends BoxProps {
  * Documentation: https://vidsrcme.ru/api/
  */
 export default function VidsrcPlayer({
-  tmdbId,
-  mediaType,
-  season,
-  episode,
+  src,
+  onReady,
   ...boxProps
 }: VidsrcPlayerProps) {
-  // Build Vidsrc embed URL based on media type
-  const getVidsrcUrl = () => {
-    const baseUrl = "https://vidsrc-embed.ru/embed";
-    
-    if (mediaType === "movie") {
-      return `${baseUrl}/movie?tmdb=${tmdbId}&autoplay=1`;
-    } else if (mediaType === "tv" && season && episode) {
-      return `${baseUrl}/tv?tmdb=${tmdbId}&season=${season}&episode=${episode}&autoplay=1`;
-    } else {
-      return `${baseUrl}/tv?tmdb=${tmdbId}&autoplay=1`;
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+
+  useEffect(() => {
+    if (iframeRef.current) {
+      onReady?.(iframeRef.current);
     }
-  };
+  }, []);
 
   return (
     <Box
+      ref={iframeRef}
       component="iframe"
-      src={getVidsrcUrl()}
+      src={src}
       allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
       allowFullScreen
       sx={{
@@ -56,7 +56,10 @@ export default function VolumeControllers({
       //   },
       // }}
     >
-      <PlayerControlButton onClick={handleVolumeToggle}>
+      <PlayerControlButton
+        aria-label={muted ? "Unmute" : "Mute"}
+        onClick={handleVolumeToggle}
+      >
         {!muted ? <VolumeUpIcon /> : <VolumeOffIcon />}
       </PlayerControlButton>
       <StyledSlider
@@ -65,6 +68,8 @@ export default function VolumeControllers({
         valueLabelDisplay="auto"
         valueLabelFormat={(x: number) => x}
         onChange={handleVolume}
+        aria-label="Volume"
+        getAriaValueText={(x: number) => `${Math.round(x)}%`}
         sx={{ width: { xs: 60, sm: 80, md: 100 } }}
       />
     </Stack>
@@ -1,17 +1,47 @@
 import { CustomGenre } from "src/types/Genre";
+import { MEDIA_TYPE } from "src/types/Common";
 
 export const API_ENDPOINT_URL = import.meta.env.VITE_APP_API_ENDPOINT_URL || "https://api.themoviedb.org/3";
 export const TMDB_V3_API_KEY = (import.meta.env.VITE_APP_TMDB_V3_API_KEY || "").trim();
 export const OMDB_API_KEY = (import.meta.env.VITE_APP_OMDB_API_KEY || "87a82b55").trim();
 export const OMDB_API_URL = "https://www.omdbapi.com";
+// ISO 3166-1 country whose age ratings are shown and used for filtering
+export const CERTIFICATION_COUNTRY = (import.meta.env.VITE_APP_CERTIFICATION_COUNTRY || "US").trim().toUpperCase();
 
 export const MAIN_PATH = {
   root: "",
   browse: "browse",
   genreExplore: "genre",
   watch: "watch",
+  search: "search",
+  myList: "my-list",
+  history: "history",
+  settings: "settings",
 };
 
+export const STORAGE_KEY = "udongflix";
+export const DEFAULT_PROFILE_ID = "default";
+export const MAX_PROFILES = 5;
+export const DEFAULT_AVATAR = "/avatar.png";
+export const PROFILE_AVATARS = [
+  DEFAULT_AVATAR,
+  "#E50914",
+  "#2E86DE",
+  "#F39C12",
+  "#27AE60",
+  "#8E44AD",
+  "#16A085",
+];
+
+// Maximum viewer age a profile may watch, `null` meaning no restriction
+export const KIDS_MAX_MATURITY_AGE = 12;
+export const MATURITY_LEVELS: { label: string; maxAge: number | null }[] = [
+  { label: "Little Kids (7+)", maxAge: 7 },
+  { label: "Older Kids (12+)", maxAge: KIDS_MAX_MATURITY_AGE },
+  { label: "Teens (16+)", maxAge: 16 },
+  { label: "All Maturity Ratings", maxAge: null },
+];
+
 export const ARROW_MAX_WIDTH = 60;
 export const COMMON_TITLES: CustomGenre[] = [
   { name: "Popular", apiString: "popular" },
@@ -19,10 +49,58 @@ export const COMMON_TITLES: CustomGenre[] = [
   { name: "Now Playing", apiString: "now_playing" },
   { name: "Upcoming", apiString: "upcoming" },
 ];
+export const TV_COMMON_TITLES: CustomGenre[] = [
+  { name: "Airing Today", apiString: "airing_today" },
+  { name: "On The Air", apiString: "on_the_air" },
+  { name: "Popular", apiString: "popular" },
+  { name: "Top Rated", apiString: "top_rated" },
+];
+export const COMMON_TITLES_BY_MEDIA_TYPE: Record<MEDIA_TYPE, CustomGenre[]> = {
+  [MEDIA_TYPE.Movie]: COMMON_TITLES,
+  [MEDIA_TYPE.Tv]: TV_COMMON_TITLES,
+};
+
+// `/browse/:browseType` segments
+export const BROWSE_MEDIA_TYPES: Record<string, MEDIA_TYPE> = {
+  movies: MEDIA_TYPE.Movie,
+  tv: MEDIA_TYPE.Tv,
+};
+
+export const SEARCH_DEBOUNCE_MS = 400;
+
+// Playback progress
+export const WATCHED_THRESHOLD = 0.95;
+export const RESUME_MIN_SECONDS = 30;
+export const PROGRESS_SAVE_INTERVAL_MS = 5000;
+// Viewing sessions kept per profile
+export const HISTORY_LIMIT = 500;
+
+// Binge watching
+export const NEXT_EPISODE_OVERLAY_SECONDS = 20;
+export const NEXT_EPISODE_COUNTDOWN_SECONDS = 10;
+export const BINGE_AUTOPLAY_LIMIT = 3;
+// Embeds that haven't reported playback by then probably never will
+export const EMBED_EVENTS_TIMEOUT_MS = 15000;
+
+// Player keyboard shortcuts
+export const SHORTCUT_SEEK_SECONDS = 10;
+export const SHORTCUT_ARROW_SEEK_SECONDS = 5;
+export const SHORTCUT_VOLUME_STEP = 0.05;
+
+// Playback speeds offered in the player, 1 is normal speed
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+// Streams don't tell us their frame rate, step as if it was film
+export const FRAME_STEP_SECONDS = 1 / 24;
+
+// Player controls fade out after this long without pointer/keyboard activity
+export const PLAYER_IDLE_TIMEOUT_MS = 3000;
 
 export const YOUTUBE_URL = "https://www.youtube.com/watch?v=";
 export const APP_BAR_HEIGHT = 70;
 
+// Query parameter holding the title shown in the detail modal, e.g. `?jbv=movie:550`
+export const DETAIL_QUERY_PARAM = "jbv";
+
 export const INITIAL_DETAIL_STATE = {
   id: undefined,
   mediaType: undefined,
@@ -55,7 +55,12 @@ export default function withPagination(
 
     if (pageState) {
       return (
-        <Component genre={genre} data={pageState} handleNext={handleNext} />
+        <Component
+          genre={genre}
+          mediaType={mediaType}
+          data={pageState}
+          handleNext={handleNext}
+        />
       );
     }
     return <MainLoadingScreen />;
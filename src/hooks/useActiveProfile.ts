@@ -0,0 +1,13 @@
+import { useAppSelector } from "src/hooks/redux";
+import {
+  selectActiveProfile,
+  selectActiveProfileId,
+} from "src/store/slices/profiles";
+
+export default function useActiveProfile() {
+  return useAppSelector(selectActiveProfile);
+}
+
+export function useActiveProfileId() {
+  return useAppSelector(selectActiveProfileId);
+}
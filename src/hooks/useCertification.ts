@@ -0,0 +1,101 @@
+import { useEffect, useMemo } from "react";
+import { shallowEqual } from "react-redux";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import {
+  certificationSliceEndpoints,
+  useGetCertificationQuery,
+} from "src/store/slices/certification";
+import { getCertificationKey } from "src/store/slices/certificationCache";
+import { selectMaturityCeiling } from "src/store/slices/profiles";
+import { MEDIA_TYPE } from "src/types/Common";
+import { Movie } from "src/types/Movie";
+import { isAllowedForAge } from "src/utils/certification";
+import { getMediaType } from "src/utils/media";
+
+export default function useCertification(mediaType: MEDIA_TYPE, id?: number) {
+  const { data } = useGetCertificationQuery(
+    { mediaType, id: id ?? 0 },
+    { skip: !id }
+  );
+  return data?.certification ?? null;
+}
+
+export function useMaturityCeiling() {
+  return useAppSelector(selectMaturityCeiling);
+}
+
+/**
+ * Whether the active profile may open a title, `null` while its certification
+ * is still being looked up. Guards direct links that bypass the row filters.
+ */
+export function useIsAllowedForMaturity(mediaType?: MEDIA_TYPE, id?: number) {
+  const maxAge = useMaturityCeiling();
+  const isRestricted = maxAge !== null;
+  const { data, isError } = useGetCertificationQuery(
+    { mediaType: mediaType ?? MEDIA_TYPE.Movie, id: id ?? 0 },
+    { skip: !isRestricted || !mediaType || !id }
+  );
+  if (!isRestricted) {
+    return true;
+  }
+  if (!data) {
+    return isError ? false : null;
+  }
+  return isAllowedForAge(data.age, maxAge);
+}
+
+/**
+ * Drops titles above the active profile's maturity ceiling. Certifications
+ * are looked up once per title and cached, titles stay hidden until theirs
+ * is known.
+ */
+export function useMaturityFilter(videos: Movie[]) {
+  const dispatch = useAppDispatch();
+  const maxAge = useMaturityCeiling();
+  const isRestricted = maxAge !== null;
+
+  // `undefined` for titles that haven't been looked up yet
+  const ages = useAppSelector(
+    (state) =>
+      isRestricted
+        ? videos.map(
+            (video) =>
+              state.certificationCache[
+                getCertificationKey(getMediaType(video), video.id)
+              ]
+          )
+        : [],
+    shallowEqual
+  );
+
+  useEffect(() => {
+    if (!isRestricted) {
+      return;
+    }
+    const subscriptions = videos
+      .filter((_, idx) => ages[idx] === undefined)
+      .map((video) =>
+        dispatch(
+          certificationSliceEndpoints.getCertification.initiate({
+            mediaType: getMediaType(video),
+            id: video.id,
+          })
+        )
+      );
+    return () => {
+      subscriptions.forEach((subscription) => subscription.unsubscribe());
+    };
+    // Only look up again when the titles change, not as each answer arrives
+  }, [dispatch, videos, isRestricted]);
+
+  return useMemo(
+    () =>
+      isRestricted
+        ? videos.filter(
+            (video, idx) =>
+              !video.adult && isAllowedForAge(ages[idx] ?? null, maxAge)
+          )
+        : videos,
+    [videos, ages, maxAge, isRestricted]
+  );
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "touchstart",
+  "keydown",
+  "wheel",
+  "focusin",
+] as const;
+
+/**
+ * `true` once there was no pointer or keyboard activity for `timeout` ms.
+ * Never idle while `enabled` is false, e.g. while something must stay visible.
+ */
+export default function useIdle(timeout: number, enabled: boolean = true) {
+  const [isIdle, setIsIdle] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      setIsIdle(false);
+      return;
+    }
+    let timeoutId = setTimeout(() => setIsIdle(true), timeout);
+    const handleActivity = () => {
+      setIsIdle(false);
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => setIsIdle(true), timeout);
+    };
+    ACTIVITY_EVENTS.forEach((type) =>
+      window.addEventListener(type, handleActivity, { passive: true })
+    );
+    return () => {
+      clearTimeout(timeoutId);
+      ACTIVITY_EVENTS.forEach((type) =>
+        window.removeEventListener(type, handleActivity)
+      );
+    };
+  }, [timeout, enabled]);
+
+  return isIdle;
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import Player from "video.js/dist/types/player";
+
+export interface LoopRange {
+  start: number;
+  // `null` while only the A point is set
+  end: number | null;
+}
+
+/**
+ * A-B repeat: once both points are set, playback jumps back to A whenever
+ * it reaches B.
+ */
+export default function useLoopRange(player: Player | null) {
+  const [loop, setLoop] = useState<LoopRange | null>(null);
+
+  // Points belong to the media they were set on
+  useEffect(() => {
+    setLoop(null);
+  }, [player]);
+
+  useEffect(() => {
+    if (!player || !loop || loop.end === null) {
+      return;
+    }
+    const { start, end } = loop;
+    const handleTimeUpdate = () => {
+      if (player.currentTime() >= end) {
+        player.currentTime(start);
+      }
+    };
+    player.on("timeupdate", handleTimeUpdate);
+    return () => {
+      if (!player.isDisposed()) {
+        player.off("timeupdate", handleTimeUpdate);
+      }
+    };
+  }, [player, loop]);
+
+  /**
+   * Set A, then B, then clear the loop. A point B before A starts over from
+   * that point instead.
+   */
+  const setPoint = useCallback(() => {
+    if (!player) {
+      return null;
+    }
+    const time = player.currentTime();
+    const next: LoopRange | null =
+      !loop || (loop.end === null && time <= loop.start)
+        ? { start: time, end: null }
+        : loop.end === null
+        ? { start: loop.start, end: time }
+        : null;
+    setLoop(next);
+    return next;
+  }, [player, loop]);
+
+  const clear = useCallback(() => setLoop(null), []);
+
+  return { loop, setPoint, clear };
+}
@@ -0,0 +1,46 @@
+import { useMemo } from "react";
+import { createSelector } from "@reduxjs/toolkit";
+import { useAppSelector } from "src/hooks/redux";
+import { selectActiveProfileId } from "src/store/slices/profiles";
+import type { RootState } from "src/store";
+import { Movie } from "src/types/Movie";
+import {
+  buildGenreAffinity,
+  computeMatchScore,
+  getWatchedSignals,
+  TasteSignal,
+  TASTE_WEIGHTS,
+} from "src/utils/match";
+
+// Shared by every card, recomputed only when the profile's history changes.
+// Watching comes from the history log, progress forgets finished titles.
+export const selectGenreAffinity = createSelector(
+  [
+    selectActiveProfileId,
+    (state: RootState) => state.history,
+    (state: RootState) => state.myList,
+    (state: RootState) => state.ratings,
+  ],
+  (profileId, history, myList, ratings) => {
+    const signals: TasteSignal[] = [
+      ...getWatchedSignals(history[profileId] ?? []),
+      ...(myList[profileId] ?? []).map((item) => ({
+        video: item.video,
+        weight: TASTE_WEIGHTS.myList,
+      })),
+      ...Object.values(ratings[profileId] ?? {}).map((item) => ({
+        video: item.video,
+        weight: TASTE_WEIGHTS[item.rating],
+      })),
+    ];
+    return buildGenreAffinity(signals);
+  }
+);
+
+export default function useMatchScore(video?: Movie) {
+  const affinity = useAppSelector(selectGenreAffinity);
+  return useMemo(
+    () => (video ? computeMatchScore(video, affinity) : null),
+    [video, affinity]
+  );
+}
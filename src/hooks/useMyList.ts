@@ -0,0 +1,36 @@
+import { useCallback } from "react";
+import { useActiveProfileId } from "src/hooks/useActiveProfile";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import { toggleMyListItem } from "src/store/slices/myList";
+import { Movie } from "src/types/Movie";
+import { MyListItem } from "src/types/MyList";
+import { getMediaType } from "src/utils/media";
+
+const EMPTY_LIST: MyListItem[] = [];
+
+export default function useMyList() {
+  const dispatch = useAppDispatch();
+  const profileId = useActiveProfileId();
+  const items = useAppSelector(
+    (state) => state.myList[profileId] ?? EMPTY_LIST
+  );
+
+  const isInMyList = useCallback(
+    (video: Movie) =>
+      items.some(
+        (item) =>
+          item.video.id === video.id &&
+          getMediaType(item.video) === getMediaType(video)
+      ),
+    [items]
+  );
+
+  const toggle = useCallback(
+    (video: Movie) => {
+      dispatch(toggleMyListItem({ profileId, video }));
+    },
+    [dispatch, profileId]
+  );
+
+  return { items, isInMyList, toggle };
+}
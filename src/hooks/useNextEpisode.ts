@@ -0,0 +1,53 @@
+import { useGetTvSeasonQuery } from "src/store/slices/tv";
+import { MediaDetail } from "src/types/Movie";
+import { Episode, SeasonDetail } from "src/types/Tv";
+import { getPlayableSeasons, isTvDetail } from "src/utils/media";
+
+export type NextEpisode = {
+  season: number;
+  episode: number;
+  detail?: Episode;
+};
+
+/**
+ * The episode following `season`/`episode`, rolling over to the first
+ * episode of the next season when the current one is finished.
+ */
+export default function useNextEpisode(
+  mediaDetail?: MediaDetail,
+  seasonDetail?: SeasonDetail,
+  season?: number,
+  episode?: number
+): NextEpisode | null {
+  const tvDetail =
+    mediaDetail && isTvDetail(mediaDetail) ? mediaDetail : undefined;
+  const inSeason =
+    episode !== undefined
+      ? seasonDetail?.episodes.find((e) => e.episode_number === episode + 1)
+      : undefined;
+  const nextSeason =
+    tvDetail && seasonDetail && !inSeason && season !== undefined
+      ? getPlayableSeasons(tvDetail).find((s) => s.season_number > season)
+      : undefined;
+
+  const { data: nextSeasonDetail } = useGetTvSeasonQuery(
+    { id: tvDetail?.id ?? 0, seasonNumber: nextSeason?.season_number ?? 0 },
+    { skip: !tvDetail || !nextSeason }
+  );
+
+  if (inSeason) {
+    return {
+      season: inSeason.season_number,
+      episode: inSeason.episode_number,
+      detail: inSeason,
+    };
+  }
+  if (nextSeason) {
+    return {
+      season: nextSeason.season_number,
+      episode: 1,
+      detail: nextSeasonDetail?.episodes[0],
+    };
+  }
+  return null;
+}
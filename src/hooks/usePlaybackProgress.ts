@@ -0,0 +1,78 @@
+import { useCallback, useMemo } from "react";
+import { useActiveProfileId } from "src/hooks/useActiveProfile";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import { saveProgress } from "src/store/slices/progress";
+import { MEDIA_TYPE } from "src/types/Common";
+import { Movie } from "src/types/Movie";
+import { PlaybackProgress } from "src/types/Playback";
+import { getProgressKey, isResumable } from "src/utils/playback";
+
+const EMPTY_PROGRESS: Record<string, PlaybackProgress> = {};
+
+export function useProfileProgress() {
+  const profileId = useActiveProfileId();
+  return useAppSelector((state) => state.progress[profileId] ?? EMPTY_PROGRESS);
+}
+
+export default function usePlaybackProgress(
+  mediaType: MEDIA_TYPE,
+  id: number,
+  season?: number,
+  episode?: number
+) {
+  const dispatch = useAppDispatch();
+  const profileId = useActiveProfileId();
+  const key = getProgressKey(mediaType, id, season, episode);
+  const progress = useAppSelector((state) => state.progress[profileId]?.[key]);
+
+  const save = useCallback(
+    (position: number, duration: number, video: Movie) => {
+      if (!id || !duration || !isFinite(duration)) {
+        return;
+      }
+      dispatch(
+        saveProgress({
+          profileId,
+          progress: {
+            key,
+            mediaType,
+            id,
+            season,
+            episode,
+            position,
+            duration,
+            updatedAt: Date.now(),
+            video,
+          },
+        })
+      );
+    },
+    [dispatch, profileId, key, mediaType, id, season, episode]
+  );
+
+  return { progress, save };
+}
+
+/**
+ * The most recent unfinished entry per title, newest first. For TV shows
+ * this is the last episode the profile was watching.
+ */
+export function useContinueWatching() {
+  const profileProgress = useProfileProgress();
+
+  return useMemo(() => {
+    const latestByTitle: Record<string, PlaybackProgress> = {};
+    Object.values(profileProgress)
+      .filter((progress) => isResumable(progress))
+      .forEach((progress) => {
+        const titleKey = getProgressKey(progress.mediaType, progress.id);
+        const current = latestByTitle[titleKey];
+        if (!current || current.updatedAt < progress.updatedAt) {
+          latestByTitle[titleKey] = progress;
+        }
+      });
+    return Object.values(latestByTitle).sort(
+      (a, b) => b.updatedAt - a.updatedAt
+    );
+  }, [profileProgress]);
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect } from "react";
+import Player from "video.js/dist/types/player";
+import { PLAYBACK_RATES } from "src/constant";
+import usePlayerPreferences from "src/hooks/usePlayerPreferences";
+
+/**
+ * Playback speed remembered per profile. The rate is applied again whenever
+ * new media loads because switching sources resets it on the video element.
+ */
+export default function usePlaybackRate(player: Player | null) {
+  const { preferences, update } = usePlayerPreferences();
+  const { playbackRate } = preferences;
+
+  useEffect(() => {
+    if (!player) {
+      return;
+    }
+    const applyRate = () => {
+      player.playbackRate(playbackRate);
+    };
+    applyRate();
+    player.on("loadedmetadata", applyRate);
+    return () => {
+      if (!player.isDisposed()) {
+        player.off("loadedmetadata", applyRate);
+      }
+    };
+  }, [player, playbackRate]);
+
+  const setRate = useCallback(
+    (rate: number) => update({ playbackRate: rate }),
+    [update]
+  );
+
+  // Move to the neighbouring preset, returns the new rate
+  const stepRate = useCallback(
+    (direction: 1 | -1) => {
+      const next =
+        direction > 0
+          ? PLAYBACK_RATES.find((rate) => rate > playbackRate)
+          : [...PLAYBACK_RATES].reverse().find((rate) => rate < playbackRate);
+      const rate = next ?? playbackRate;
+      setRate(rate);
+      return rate;
+    },
+    [playbackRate, setRate]
+  );
+
+  return { rate: playbackRate, setRate, stepRate };
+}
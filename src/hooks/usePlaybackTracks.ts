@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from "react";
+import Player from "video.js/dist/types/player";
+import usePlayerPreferences from "src/hooks/usePlayerPreferences";
+import { isSameLanguage } from "src/utils/subtitles";
+
+// Video.js registers these at runtime but doesn't ship types for them
+interface QualityLevel {
+  id: string;
+  width?: number;
+  height?: number;
+  bitrate: number;
+  enabled: boolean;
+}
+
+interface AudioTrack {
+  id: string;
+  kind: string;
+  label: string;
+  language: string;
+  enabled: boolean;
+}
+
+interface TrackList<T> {
+  length: number;
+  [index: number]: T;
+  on: (type: string | string[], fn: () => void) => void;
+  off: (type: string | string[], fn: () => void) => void;
+}
+
+type PlayerWithTracks = Player & {
+  qualityLevels?: () => TrackList<QualityLevel> & { selectedIndex: number };
+  audioTracks: () => TrackList<AudioTrack>;
+};
+
+export interface QualityOption {
+  height: number;
+  bitrate: number;
+}
+
+export interface AudioOption {
+  id: string;
+  label: string;
+  language: string;
+  enabled: boolean;
+}
+
+function toArray<T>(list: TrackList<T>) {
+  return Array.from({ length: list.length }, (_, idx) => list[idx]);
+}
+
+/**
+ * Renditions and alternate audio tracks of HLS/DASH streams. The quality
+ * levels are the VHS representations, enabling a subset of them restricts
+ * what the adaptive bitrate logic may switch between.
+ */
+export default function usePlaybackTracks(player: Player | null) {
+  const { preferences, update } = usePlayerPreferences();
+  const { videoQuality, audioLanguage } = preferences;
+  const [qualities, setQualities] = useState<QualityOption[]>([]);
+  const [currentHeight, setCurrentHeight] = useState<number | null>(null);
+  const [audioTracks, setAudioTracks] = useState<AudioOption[]>([]);
+
+  useEffect(() => {
+    const levels = (player as PlayerWithTracks | null)?.qualityLevels?.();
+    if (!levels) {
+      setQualities([]);
+      return;
+    }
+    const applyLevels = () => {
+      const all = toArray(levels);
+      const heights = all.map((level) => level.height ?? 0);
+      // Fall back to the closest lower rendition when the exact one is missing
+      const lower = heights.filter((h) => h <= (videoQuality ?? 0));
+      const target =
+        videoQuality === null
+          ? null
+          : lower.length
+          ? Math.max(...lower)
+          : Math.min(...heights);
+      all.forEach((level) => {
+        level.enabled = target === null || (level.height ?? 0) === target;
+      });
+      // Keep the best bitrate per resolution, the rest only differ in codec
+      const byHeight = new Map<number, QualityOption>();
+      all.forEach(({ height = 0, bitrate }) => {
+        if (height && (byHeight.get(height)?.bitrate ?? 0) < bitrate) {
+          byHeight.set(height, { height, bitrate });
+        }
+      });
+      setQualities(
+        Array.from(byHeight.values()).sort((a, b) => b.height - a.height)
+      );
+    };
+    const handleChange = () => {
+      setCurrentHeight(levels[levels.selectedIndex]?.height ?? null);
+    };
+    applyLevels();
+    handleChange();
+    levels.on(["addqualitylevel", "removequalitylevel"], applyLevels);
+    levels.on("change", handleChange);
+    return () => {
+      levels.off(["addqualitylevel", "removequalitylevel"], applyLevels);
+      levels.off("change", handleChange);
+    };
+  }, [player, videoQuality]);
+
+  useEffect(() => {
+    const tracks = (player as PlayerWithTracks | null)?.audioTracks();
+    if (!tracks) {
+      setAudioTracks([]);
+      return;
+    }
+    const syncTracks = () => {
+      setAudioTracks(
+        toArray(tracks).map(({ id, label, language, enabled }) => ({
+          id,
+          label,
+          language,
+          enabled,
+        }))
+      );
+    };
+    const handleAddTrack = () => {
+      const all = toArray(tracks);
+      const preferred =
+        audioLanguage &&
+        all.find((track) => isSameLanguage(track.language, audioLanguage));
+      if (preferred && !preferred.enabled) {
+        preferred.enabled = true;
+      }
+      syncTracks();
+    };
+    handleAddTrack();
+    tracks.on(["addtrack", "removetrack"], handleAddTrack);
+    tracks.on("change", syncTracks);
+    return () => {
+      tracks.off(["addtrack", "removetrack"], handleAddTrack);
+      tracks.off("change", syncTracks);
+    };
+  }, [player, audioLanguage]);
+
+  const selectQuality = useCallback(
+    (height: number | null) => update({ videoQuality: height }),
+    [update]
+  );
+
+  const selectAudioTrack = useCallback(
+    (id: string) => {
+      const tracks = (player as PlayerWithTracks | null)?.audioTracks();
+      const track = tracks && toArray(tracks).find((t) => t.id === id);
+      if (track) {
+        // Enabling one audio track disables the others
+        track.enabled = true;
+        update({ audioLanguage: track.language || null });
+      }
+    },
+    [player, update]
+  );
+
+  return {
+    qualities,
+    currentHeight,
+    selectedQuality: videoQuality,
+    selectQuality,
+    audioTracks,
+    selectAudioTrack,
+  };
+}
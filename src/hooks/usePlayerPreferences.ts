@@ -0,0 +1,28 @@
+import { useCallback, useMemo } from "react";
+import { useActiveProfileId } from "src/hooks/useActiveProfile";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import {
+  DEFAULT_PLAYER_PREFERENCES,
+  updatePreferences,
+} from "src/store/slices/preferences";
+import { PlayerPreferences } from "src/types/Preferences";
+
+export default function usePlayerPreferences() {
+  const dispatch = useAppDispatch();
+  const profileId = useActiveProfileId();
+  const stored = useAppSelector((state) => state.preferences[profileId]);
+  // Fill in settings added after the profile's preferences were first saved
+  const preferences = useMemo(
+    () => ({ ...DEFAULT_PLAYER_PREFERENCES, ...stored }),
+    [stored]
+  );
+
+  const update = useCallback(
+    (changes: Partial<PlayerPreferences>) => {
+      dispatch(updatePreferences({ profileId, changes }));
+    },
+    [dispatch, profileId]
+  );
+
+  return { preferences, update };
+}
@@ -0,0 +1,204 @@
+import { useEffect, useRef } from "react";
+
+export type PlayerShortcutAction =
+  | "togglePlay"
+  | "rewind"
+  | "forward"
+  | "seekBackward"
+  | "seekForward"
+  | "volumeUp"
+  | "volumeDown"
+  | "fullscreen"
+  | "mute"
+  | "captions"
+  | "nextEpisode"
+  | "jump"
+  | "previousFrame"
+  | "nextFrame"
+  | "slower"
+  | "faster"
+  | "loop"
+  | "help";
+
+export const PLAYER_SHORTCUTS: {
+  action: PlayerShortcutAction;
+  keys: string[];
+  // Shown in the help overlay, `keys` are matched against `KeyboardEvent.key`
+  labels: string[];
+  description: string;
+}[] = [
+  {
+    action: "togglePlay",
+    keys: [" ", "k"],
+    labels: ["Space", "K"],
+    description: "Play / pause",
+  },
+  {
+    action: "rewind",
+    keys: ["j"],
+    labels: ["J"],
+    description: "Rewind 10 seconds",
+  },
+  {
+    action: "forward",
+    keys: ["l"],
+    labels: ["L"],
+    description: "Forward 10 seconds",
+  },
+  {
+    action: "seekBackward",
+    keys: ["ArrowLeft"],
+    labels: ["←"],
+    description: "Rewind 5 seconds",
+  },
+  {
+    action: "seekForward",
+    keys: ["ArrowRight"],
+    labels: ["→"],
+    description: "Forward 5 seconds",
+  },
+  {
+    action: "volumeUp",
+    keys: ["ArrowUp"],
+    labels: ["↑"],
+    description: "Volume up",
+  },
+  {
+    action: "volumeDown",
+    keys: ["ArrowDown"],
+    labels: ["↓"],
+    description: "Volume down",
+  },
+  {
+    action: "mute",
+    keys: ["m"],
+    labels: ["M"],
+    description: "Mute / unmute",
+  },
+  {
+    action: "fullscreen",
+    keys: ["f"],
+    labels: ["F"],
+    description: "Toggle fullscreen",
+  },
+  {
+    action: "captions",
+    keys: ["c"],
+    labels: ["C"],
+    description: "Subtitles on / off",
+  },
+  {
+    action: "nextEpisode",
+    keys: ["n"],
+    labels: ["N"],
+    description: "Next episode",
+  },
+  {
+    action: "jump",
+    keys: ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"],
+    labels: ["0", "–", "9"],
+    description: "Jump to 0% – 90%",
+  },
+  {
+    action: "previousFrame",
+    keys: [","],
+    labels: [","],
+    description: "Previous frame (while paused)",
+  },
+  {
+    action: "nextFrame",
+    keys: ["."],
+    labels: ["."],
+    description: "Next frame (while paused)",
+  },
+  {
+    action: "slower",
+    keys: ["<"],
+    labels: ["<"],
+    description: "Decrease playback speed",
+  },
+  {
+    action: "faster",
+    keys: [">"],
+    labels: [">"],
+    description: "Increase playback speed",
+  },
+  {
+    action: "loop",
+    keys: ["a"],
+    labels: ["A"],
+    description: "Set loop start / end, then clear it",
+  },
+  {
+    action: "help",
+    keys: ["?"],
+    labels: ["?"],
+    description: "Show keyboard shortcuts",
+  },
+];
+
+// Keys typed here never reach the player
+const IGNORED_SELECTOR =
+  "input:not([type='range']), textarea, select, [contenteditable='true']";
+// Open menus and dialogs keep their keys, except "?" so the help overlay
+// can be toggled closed again
+const OVERLAY_SELECTOR = "[role='menu'], [role='dialog']";
+// Focused controls already handle these keys themselves
+const CONTROL_KEYS: [string, string[]][] = [
+  ["button, a", [" ", "Enter"]],
+  ["input[type='range']", ["ArrowLeft", "ArrowRight", "ArrowUp", "ArrowDown"]],
+];
+
+export type PlayerShortcutHandlers = Partial<
+  Record<PlayerShortcutAction, (key: string) => void>
+>;
+
+/**
+ * Listen for the player's keyboard shortcuts on the whole page, ignoring
+ * keys typed into form fields or meant for a focused control.
+ */
+export default function usePlayerShortcuts(
+  handlers: PlayerShortcutHandlers,
+  enabled: boolean = true
+) {
+  // Handlers close over the latest player state, the listener stays the same
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.defaultPrevented ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey
+      ) {
+        return;
+      }
+      const target = event.target as HTMLElement | null;
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      const shortcut = PLAYER_SHORTCUTS.find((s) => s.keys.includes(key));
+      if (
+        target?.closest(IGNORED_SELECTOR) ||
+        (shortcut?.action !== "help" && target?.closest(OVERLAY_SELECTOR)) ||
+        CONTROL_KEYS.some(
+          ([selector, keys]) => keys.includes(key) && target?.closest(selector)
+        )
+      ) {
+        return;
+      }
+      const handler = shortcut && handlersRef.current[shortcut.action];
+      if (handler) {
+        event.preventDefault();
+        handler(key);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [enabled]);
+}
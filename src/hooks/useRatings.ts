@@ -0,0 +1,54 @@
+import { useCallback, useMemo } from "react";
+import { useActiveProfileId } from "src/hooks/useActiveProfile";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import { getRatingKey, setRating } from "src/store/slices/ratings";
+import { Movie } from "src/types/Movie";
+import { RATING, RatedItem } from "src/types/Rating";
+
+const EMPTY_RATINGS: Record<string, RatedItem> = {};
+
+export function useProfileRatings() {
+  const profileId = useActiveProfileId();
+  return useAppSelector((state) => state.ratings[profileId] ?? EMPTY_RATINGS);
+}
+
+export default function useRating(video: Movie) {
+  const dispatch = useAppDispatch();
+  const profileId = useActiveProfileId();
+  const rating = useAppSelector(
+    (state) => state.ratings[profileId]?.[getRatingKey(video)]?.rating ?? null
+  );
+
+  const rate = useCallback(
+    (next: RATING | null) => {
+      dispatch(setRating({ profileId, video, rating: next }));
+    },
+    [dispatch, profileId, video]
+  );
+
+  return { rating, rate };
+}
+
+// Loved titles, most recently rated first
+export function useLovedTitles() {
+  const ratings = useProfileRatings();
+  return useMemo(
+    () =>
+      Object.values(ratings)
+        .filter((item) => item.rating === RATING.Love)
+        .sort((a, b) => b.ratedAt - a.ratedAt)
+        .map((item) => item.video),
+    [ratings]
+  );
+}
+
+export function useWithoutDisliked(videos: Movie[]) {
+  const ratings = useProfileRatings();
+  return useMemo(
+    () =>
+      videos.filter(
+        (video) => ratings[getRatingKey(video)]?.rating !== RATING.NotForMe
+      ),
+    [videos, ratings]
+  );
+}
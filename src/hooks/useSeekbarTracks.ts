@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { SeekbarMarker, ThumbnailCue } from "src/types/Playback";
+import { parseChapterTrack, parseThumbnailTrack } from "src/utils/seekbar";
+import { VideoSource } from "src/utils/videoSources";
+
+async function fetchTrack(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Load the thumbnail and chapter tracks of a source. Sources without them,
+ * or with tracks that fail to load, just get a time-only seekbar preview.
+ */
+export default function useSeekbarTracks(source: VideoSource | null) {
+  const [thumbnails, setThumbnails] = useState<ThumbnailCue[]>([]);
+  const [chapters, setChapters] = useState<SeekbarMarker[]>([]);
+  const thumbnailsUrl = source?.thumbnails;
+  const chaptersUrl = source?.chapters;
+
+  useEffect(() => {
+    setThumbnails([]);
+    if (!thumbnailsUrl) {
+      return;
+    }
+    let cancelled = false;
+    fetchTrack(thumbnailsUrl)
+      .then((vtt) => {
+        if (!cancelled) {
+          setThumbnails(parseThumbnailTrack(vtt, thumbnailsUrl));
+        }
+      })
+      .catch((error) =>
+        console.warn(`Could not load thumbnails ${thumbnailsUrl}:`, error)
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbnailsUrl]);
+
+  useEffect(() => {
+    setChapters([]);
+    if (!chaptersUrl) {
+      return;
+    }
+    let cancelled = false;
+    fetchTrack(chaptersUrl)
+      .then((vtt) => {
+        if (!cancelled) {
+          setChapters(parseChapterTrack(vtt));
+        }
+      })
+      .catch((error) =>
+        console.warn(`Could not load chapters ${chaptersUrl}:`, error)
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [chaptersUrl]);
+
+  return { thumbnails, chapters };
+}
@@ -0,0 +1,45 @@
+import { useCallback } from "react";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import { removeSegment, setSegment } from "src/store/slices/markers";
+import { MEDIA_TYPE } from "src/types/Common";
+import { Segment, SegmentType } from "src/types/Marker";
+import { getProgressKey } from "src/utils/playback";
+
+const NO_SEGMENTS: Segment[] = [];
+
+/**
+ * Intro/credits segments of a title or episode. Episodes without their own
+ * markers fall back to the ones marked for the whole show.
+ */
+export default function useSegments(
+  mediaType: MEDIA_TYPE,
+  id: number,
+  season?: number,
+  episode?: number
+) {
+  const dispatch = useAppDispatch();
+  const key = getProgressKey(mediaType, id, season, episode);
+  const titleKey = getProgressKey(mediaType, id);
+  const segments = useAppSelector(
+    (state) =>
+      state.markers[key]?.segments ??
+      state.markers[titleKey]?.segments ??
+      NO_SEGMENTS
+  );
+
+  const mark = useCallback(
+    (segment: Segment, title?: string) => {
+      dispatch(setSegment({ key, title, segment }));
+    },
+    [dispatch, key]
+  );
+
+  const remove = useCallback(
+    (type: SegmentType) => {
+      dispatch(removeSegment({ key, type }));
+    },
+    [dispatch, key]
+  );
+
+  return { segments, mark, remove };
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import {
+  recordProviderFailure,
+  recordProviderSuccess,
+} from "src/store/slices/providerHealth";
+import { ResolvedStream, StreamRequest } from "src/types/Stream";
+import { getStremioVideoSource, StremioStream } from "src/utils/stremio";
+import { selectEnabledAddonUrls } from "src/store/slices/stremioAddons";
+import { getStreamProviders, resolveStream } from "src/utils/streamResolver";
+
+const NO_EXCLUDED: string[] = [];
+
+/**
+ * Resolve the stream for `request`, moving on to the next provider whenever
+ * the current one is reported as failing during playback.
+ */
+export default function useStreamResolver(request: StreamRequest | null) {
+  const dispatch = useAppDispatch();
+  const health = useAppSelector((state) => state.providerHealth);
+  // Health is read when resolving starts, updates alone shouldn't re-resolve
+  const healthRef = useRef(health);
+  healthRef.current = health;
+  const stremioAddons = useAppSelector(selectEnabledAddonUrls);
+  const [stream, setStream] = useState<ResolvedStream | null>(null);
+  const [isResolving, setIsResolving] = useState(!!request);
+  // Keyed by value so an equal but re-created request doesn't resolve again
+  const requestKey = request ? JSON.stringify(request) : null;
+  // Failed providers only count for the request they failed on
+  const [failed, setFailed] = useState({
+    requestKey,
+    providerIds: NO_EXCLUDED,
+  });
+  const excluded =
+    failed.requestKey === requestKey ? failed.providerIds : NO_EXCLUDED;
+
+  useEffect(() => {
+    if (!requestKey) {
+      setStream(null);
+      setIsResolving(false);
+      return;
+    }
+    let cancelled = false;
+    setIsResolving(true);
+    resolveStream(JSON.parse(requestKey) as StreamRequest, {
+      providers: getStreamProviders(undefined, { stremioAddons }),
+      health: healthRef.current,
+      exclude: excluded,
+      // A superseded run must not count against the providers it probed
+      onSuccess: (providerId, latency) => {
+        if (!cancelled) {
+          dispatch(recordProviderSuccess({ providerId, latency }));
+        }
+      },
+      onFailure: (providerId) => {
+        if (!cancelled) {
+          dispatch(recordProviderFailure({ providerId }));
+        }
+      },
+    }).then((resolved) => {
+      if (!cancelled) {
+        setStream(resolved);
+        setIsResolving(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, requestKey, excluded, stremioAddons]);
+
+  const reportFailure = useCallback(
+    (providerId: string) => {
+      dispatch(recordProviderFailure({ providerId }));
+      setFailed((current) => {
+        const providerIds =
+          current.requestKey === requestKey ? current.providerIds : [];
+        return providerIds.includes(providerId)
+          ? current
+          : { requestKey, providerIds: [...providerIds, providerId] };
+      });
+    },
+    [dispatch, requestKey]
+  );
+
+  // Swap to another stream offered by the same Stremio lookup
+  const selectStremioStream = useCallback((stremioStream: StremioStream) => {
+    setStream((current) =>
+      current
+        ? {
+            ...current,
+            source: getStremioVideoSource(stremioStream),
+            stremioStream,
+          }
+        : current
+    );
+  }, []);
+
+  return { stream, isResolving, reportFailure, selectStremioStream };
+}
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Player from "video.js/dist/types/player";
+import usePlayerPreferences from "src/hooks/usePlayerPreferences";
+import { StremioStream } from "src/utils/stremio";
+import {
+  getLanguageLabel,
+  guessSubtitleLanguage,
+  isSameLanguage,
+  parseVttCues,
+  shiftVtt,
+  toVtt,
+} from "src/utils/subtitles";
+
+export interface SubtitleTrack {
+  id: string;
+  label: string;
+  language: string;
+  origin: "stremio" | "local";
+  // Remote tracks are fetched on first use, local files are read on drop
+  url?: string;
+  text?: string;
+}
+
+/**
+ * Subtitles offered by the current Stremio stream plus files loaded by the
+ * user. Only the active track is handed to Video.js, converted to WebVTT
+ * and shifted by the timing offset.
+ */
+export default function useSubtitles(
+  player: Player | null,
+  stremioSubtitles: StremioStream["subtitles"]
+) {
+  const { preferences, update } = usePlayerPreferences();
+  const [localTracks, setLocalTracks] = useState<SubtitleTrack[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const textCacheRef = useRef<Record<string, string>>({});
+
+  const tracks = useMemo<SubtitleTrack[]>(
+    () => [
+      ...localTracks,
+      ...(stremioSubtitles ?? []).map((subtitle, idx) => ({
+        id: `stremio:${subtitle.id ?? idx}:${subtitle.url}`,
+        label: getLanguageLabel(subtitle.lang),
+        language: subtitle.lang,
+        origin: "stremio" as const,
+        url: subtitle.url,
+      })),
+    ],
+    [localTracks, stremioSubtitles]
+  );
+  const activeTrack = tracks.find((track) => track.id === activeId) ?? null;
+
+  // Pick the profile's language whenever the current track goes away,
+  // e.g. on the first load or after switching to another source
+  useEffect(() => {
+    if (activeId && tracks.some((track) => track.id === activeId)) {
+      return;
+    }
+    const language = preferences.subtitleLanguage;
+    const preferred = language
+      ? tracks.find((track) => isSameLanguage(track.language, language))
+      : undefined;
+    setActiveId(preferred?.id ?? null);
+  }, [tracks]);
+
+  useEffect(() => {
+    if (!player || !activeTrack) {
+      return;
+    }
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    let trackElement: ReturnType<Player["addRemoteTextTrack"]> | null = null;
+
+    (async () => {
+      let text = activeTrack.text ?? textCacheRef.current[activeTrack.id];
+      if (text === undefined && activeTrack.url) {
+        setIsLoading(true);
+        try {
+          const response = await fetch(activeTrack.url);
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          text = await response.text();
+          textCacheRef.current[activeTrack.id] = text;
+        } catch (error) {
+          console.warn(`Could not load subtitles ${activeTrack.url}:`, error);
+        } finally {
+          setIsLoading(false);
+        }
+      }
+      if (cancelled || text === undefined || player.isDisposed()) {
+        return;
+      }
+      objectUrl = URL.createObjectURL(
+        new Blob([shiftVtt(toVtt(text), offset)], { type: "text/vtt" })
+      );
+      trackElement = player.addRemoteTextTrack(
+        {
+          kind: "subtitles",
+          src: objectUrl,
+          srclang: activeTrack.language,
+          label: activeTrack.label,
+          mode: "showing",
+        },
+        false
+      );
+    })();
+
+    return () => {
+      cancelled = true;
+      if (trackElement && !player.isDisposed()) {
+        player.removeRemoteTextTrack(trackElement);
+      }
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [player, activeTrack?.id, offset]);
+
+  const select = useCallback(
+    (id: string | null) => {
+      const track = tracks.find((t) => t.id === id);
+      setActiveId(track?.id ?? null);
+      update({ subtitleLanguage: track?.language ?? null });
+    },
+    [tracks, update]
+  );
+
+  const toggle = useCallback(() => {
+    if (activeId) {
+      select(null);
+      return;
+    }
+    const language = preferences.subtitleLanguage;
+    const preferred =
+      (language &&
+        tracks.find((track) => isSameLanguage(track.language, language))) ||
+      tracks[0];
+    if (preferred) {
+      select(preferred.id);
+    }
+  }, [activeId, tracks, preferences.subtitleLanguage, select]);
+
+  const addLocalFile = useCallback(
+    async (file: File) => {
+      const text = await file.text();
+      if (parseVttCues(toVtt(text)).length === 0) {
+        throw new Error(`No subtitles could be read from ${file.name}.`);
+      }
+      const language = guessSubtitleLanguage(file.name);
+      const track: SubtitleTrack = {
+        id: `local:${file.name}:${Date.now()}`,
+        label: file.name,
+        language,
+        origin: "local",
+        text,
+      };
+      setLocalTracks((current) => [track, ...current]);
+      setActiveId(track.id);
+      if (language !== "und") {
+        update({ subtitleLanguage: language });
+      }
+    },
+    [update]
+  );
+
+  return {
+    tracks,
+    activeTrack,
+    isLoading,
+    offset,
+    setOffset,
+    select,
+    toggle,
+    addLocalFile,
+  };
+}
@@ -0,0 +1,39 @@
+import { useCallback } from "react";
+import { useActiveProfileId } from "src/hooks/useActiveProfile";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import {
+  clearHistory,
+  logHistory,
+  removeHistoryEntry,
+} from "src/store/slices/history";
+import { HistoryEntry } from "src/types/History";
+
+const EMPTY_HISTORY: HistoryEntry[] = [];
+
+export default function useWatchHistory() {
+  const dispatch = useAppDispatch();
+  const profileId = useActiveProfileId();
+  const entries = useAppSelector(
+    (state) => state.history[profileId] ?? EMPTY_HISTORY
+  );
+
+  const log = useCallback(
+    (entry: Omit<HistoryEntry, "startedAt">) => {
+      dispatch(logHistory({ profileId, entry }));
+    },
+    [dispatch, profileId]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      dispatch(removeHistoryEntry({ profileId, id }));
+    },
+    [dispatch, profileId]
+  );
+
+  const clear = useCallback(() => {
+    dispatch(clearHistory(profileId));
+  }, [dispatch, profileId]);
+
+  return { entries, log, remove, clear };
+}
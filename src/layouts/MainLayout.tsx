@@ -3,8 +3,10 @@ import Box from "@mui/material/Box";
 
 import DetailModal from "src/components/DetailModal";
 import VideoPortalContainer from "src/components/VideoPortalContainer";
+import MiniPlayerContainer from "src/components/MiniPlayerContainer";
 import DetailModalProvider from "src/providers/DetailModalProvider";
 import PortalProvider from "src/providers/PortalProvider";
+import MiniPlayerProvider from "src/providers/MiniPlayerProvider";
 import { MAIN_PATH } from "src/constant";
 import { Footer, MainHeader } from "src/components/layouts";
 import MainLoadingScreen from "src/components/MainLoadingScreen";
@@ -23,14 +25,17 @@ export default function MainLayout() {
     >
       <MainHeader />
       {navigation.state !== "idle" && <MainLoadingScreen />}
-      <DetailModalProvider>
-        <DetailModal />
-        <PortalProvider>
-          {/* <MainLoadingScreen /> */}
-          <Outlet />
-          <VideoPortalContainer />
-        </PortalProvider>
-      </DetailModalProvider>
+      <MiniPlayerProvider>
+        <DetailModalProvider>
+          <DetailModal />
+          <PortalProvider>
+            {/* <MainLoadingScreen /> */}
+            <Outlet />
+            <VideoPortalContainer />
+          </PortalProvider>
+        </DetailModalProvider>
+        <MiniPlayerContainer />
+      </MiniPlayerProvider>
       {location.pathname !== `/${MAIN_PATH.watch}` && <Footer />}
     </Box>
   );
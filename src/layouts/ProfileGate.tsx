@@ -0,0 +1,12 @@
+import ProfilePicker from "src/components/profiles/ProfilePicker";
+import useActiveProfile from "src/hooks/useActiveProfile";
+import MainLayout from "./MainLayout";
+
+export default function ProfileGate() {
+  const activeProfile = useActiveProfile();
+
+  if (!activeProfile) {
+    return <ProfilePicker />;
+  }
+  return <MainLayout />;
+}
@@ -5,11 +5,10 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 import { Provider } from "react-redux";
 import { RouterProvider } from "react-router-dom";
-import { createTheme, ThemeProvider } from "@mui/material/styles";
 
 import store from "./store";
 import { extendedApi } from "./store/slices/configuration";
-import palette from "./theme/palette";
+import ProfileThemeProvider from "./providers/ProfileThemeProvider";
 import router from "./routes";
 import MainLoadingScreen from "./components/MainLoadingScreen";
 
@@ -21,12 +20,12 @@ const root = ReactDOM.createRoot(
 root.render(
   <Provider store={store}>
     <React.StrictMode>
-      <ThemeProvider theme={createTheme({ palette })}>
+      <ProfileThemeProvider>
         <RouterProvider
           router={router}
           fallbackElement={<MainLoadingScreen />}
         />
-      </ThemeProvider>
+      </ProfileThemeProvider>
     </React.StrictMode>
   </Provider>
 );
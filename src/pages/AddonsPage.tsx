@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import Box from "@mui/material/Box";
+import Chip from "@mui/material/Chip";
+import Stack from "@mui/material/Stack";
+import Button from "@mui/material/Button";
+import Switch from "@mui/material/Switch";
+import Tooltip from "@mui/material/Tooltip";
+import Container from "@mui/material/Container";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import IconButton from "@mui/material/IconButton";
+import ArrowUpwardIcon from "@mui/icons-material/ArrowUpward";
+import ArrowDownwardIcon from "@mui/icons-material/ArrowDownward";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import {
+  InstalledAddon,
+  installAddon,
+  moveAddon,
+  setAddonEnabled,
+  uninstallAddon,
+} from "src/store/slices/stremioAddons";
+import { fetchStremioManifest } from "src/utils/stremio";
+
+function AddonRow({
+  addon,
+  isFirst,
+  isLast,
+}: {
+  addon: InstalledAddon;
+  isFirst: boolean;
+  isLast: boolean;
+}) {
+  const dispatch = useAppDispatch();
+  const { manifestUrl, manifest, enabled } = addon;
+  const resources = manifest?.resources.map((r) =>
+    typeof r === "string" ? r : r.name
+  );
+
+  return (
+    <Stack
+      direction="row"
+      spacing={2}
+      alignItems="flex-start"
+      sx={{ p: 2, borderRadius: 1, bgcolor: "#1f1f1f" }}
+    >
+      <Box flexGrow={1} sx={{ minWidth: 0, opacity: enabled ? 1 : 0.5 }}>
+        <Stack direction="row" spacing={1} alignItems="baseline">
+          <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+            {manifest?.name ?? "Unknown addon"}
+          </Typography>
+          {manifest && (
+            <Typography variant="caption" sx={{ color: "text.secondary" }}>
+              {`v${manifest.version}`}
+            </Typography>
+          )}
+        </Stack>
+        {manifest?.description && (
+          <Typography variant="body2" sx={{ color: "text.secondary" }}>
+            {manifest.description}
+          </Typography>
+        )}
+        <Typography
+          variant="caption"
+          noWrap
+          component="div"
+          sx={{ color: "text.disabled" }}
+        >
+          {manifestUrl}
+        </Typography>
+        {manifest && (
+          <Stack direction="row" spacing={1} flexWrap="wrap" sx={{ mt: 1 }}>
+            {resources?.map((resource) => (
+              <Chip
+                key={resource}
+                size="small"
+                label={resource}
+                color={resource === "stream" ? "success" : "default"}
+              />
+            ))}
+            {manifest.types.map((type) => (
+              <Chip key={type} size="small" variant="outlined" label={type} />
+            ))}
+          </Stack>
+        )}
+        {manifest && !resources?.includes("stream") && (
+          <Typography variant="caption" sx={{ color: "warning.main" }}>
+            This addon doesn't provide streams and will be skipped.
+          </Typography>
+        )}
+      </Box>
+      <Stack direction="row" alignItems="center">
+        <Tooltip title="Move up">
+          <span>
+            <IconButton
+              size="small"
+              disabled={isFirst}
+              aria-label="Move up"
+              onClick={() => dispatch(moveAddon({ manifestUrl, offset: -1 }))}
+            >
+              <ArrowUpwardIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Move down">
+          <span>
+            <IconButton
+              size="small"
+              disabled={isLast}
+              aria-label="Move down"
+              onClick={() => dispatch(moveAddon({ manifestUrl, offset: 1 }))}
+            >
+              <ArrowDownwardIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Switch
+          checked={enabled}
+          inputProps={{ "aria-label": enabled ? "Disable" : "Enable" }}
+          onChange={(event) =>
+            dispatch(
+              setAddonEnabled({ manifestUrl, enabled: event.target.checked })
+            )
+          }
+        />
+        <Tooltip title="Uninstall">
+          <IconButton
+            size="small"
+            aria-label="Uninstall"
+            onClick={() => dispatch(uninstallAddon(manifestUrl))}
+          >
+            <DeleteOutlineIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+    </Stack>
+  );
+}
+
+export function Component() {
+  const dispatch = useAppDispatch();
+  const addons = useAppSelector((state) => state.stremioAddons);
+  const [manifestUrl, setManifestUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isInstalling, setIsInstalling] = useState(false);
+
+  // Built-in addons only know their URL until their manifest is fetched
+  useEffect(() => {
+    addons
+      .filter((addon) => !addon.manifest)
+      .forEach((addon) => {
+        fetchStremioManifest(addon.manifestUrl)
+          .then((manifest) =>
+            dispatch(installAddon({ manifestUrl: addon.manifestUrl, manifest }))
+          )
+          .catch((e) =>
+            console.warn(`Could not load ${addon.manifestUrl}:`, e)
+          );
+      });
+  }, []);
+
+  const handleInstall = async () => {
+    const url = manifestUrl.trim().replace(/^stremio:\/\//, "https://");
+    setError(null);
+    if (!/^https?:\/\/.+\/manifest\.json$/.test(url)) {
+      setError("Addon URLs must point to a manifest.json file.");
+      return;
+    }
+    if (addons.some((addon) => addon.manifestUrl === url)) {
+      setError("This addon is already installed.");
+      return;
+    }
+    setIsInstalling(true);
+    try {
+      const manifest = await fetchStremioManifest(url);
+      dispatch(installAddon({ manifestUrl: url, manifest }));
+      setManifestUrl("");
+    } catch (e) {
+      setError(
+        e instanceof Error ? e.message : "Could not load the addon manifest."
+      );
+    } finally {
+      setIsInstalling(false);
+    }
+  };
+
+  return (
+    <Container
+      maxWidth="md"
+      sx={{ pt: "150px", pb: 4, minHeight: "100vh", color: "text.primary" }}
+    >
+      <Typography variant="h4" sx={{ mb: 1 }}>
+        Stremio Addons
+      </Typography>
+      <Typography sx={{ color: "text.secondary", mb: 3 }}>
+        Streams are requested from every enabled addon and listed in this order.
+      </Typography>
+      <Stack direction="row" spacing={1} alignItems="flex-start" sx={{ mb: 4 }}>
+        <TextField
+          fullWidth
+          size="small"
+          label="Manifest URL"
+          placeholder="https://example.com/manifest.json"
+          value={manifestUrl}
+          error={!!error}
+          helperText={error}
+          onChange={(event) => setManifestUrl(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              handleInstall();
+            }
+          }}
+        />
+        <Button
+          variant="contained"
+          color="inherit"
+          disabled={!manifestUrl.trim() || isInstalling}
+          onClick={handleInstall}
+          sx={{ color: "black", whiteSpace: "nowrap" }}
+        >
+          {isInstalling ? "Installing..." : "Install"}
+        </Button>
+      </Stack>
+      <Stack spacing={1.5}>
+        {addons.length === 0 && (
+          <Typography sx={{ color: "text.secondary" }}>
+            No addons installed.
+          </Typography>
+        )}
+        {addons.map((addon, index) => (
+          <AddonRow
+            key={addon.manifestUrl}
+            addon={addon}
+            isFirst={index === 0}
+            isLast={index === addons.length - 1}
+          />
+        ))}
+      </Stack>
+    </Container>
+  );
+}
+
+Component.displayName = "AddonsPage";
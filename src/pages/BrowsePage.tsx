@@ -0,0 +1,48 @@
+import { LoaderFunctionArgs, useLoaderData } from "react-router-dom";
+import Stack from "@mui/material/Stack";
+import { BROWSE_MEDIA_TYPES, COMMON_TITLES_BY_MEDIA_TYPE } from "src/constant";
+import HeroSection from "src/components/HeroSection";
+import { genreSliceEndpoints, useGetGenresQuery } from "src/store/slices/genre";
+import { MEDIA_TYPE } from "src/types/Common";
+import { CustomGenre, Genre } from "src/types/Genre";
+import SliderRowForGenre from "src/components/VideoSlider";
+import store from "src/store";
+
+export async function loader({ params }: LoaderFunctionArgs) {
+  const { browseType } = params;
+  // Own keys only, "constructor" and friends aren't browse types
+  if (
+    !browseType ||
+    !Object.prototype.hasOwnProperty.call(BROWSE_MEDIA_TYPES, browseType)
+  ) {
+    throw new Response("Not Found", { status: 404 });
+  }
+  const mediaType = BROWSE_MEDIA_TYPES[browseType];
+  await store.dispatch(genreSliceEndpoints.getGenres.initiate(mediaType));
+  return mediaType;
+}
+
+export function Component() {
+  const mediaType = useLoaderData() as MEDIA_TYPE;
+  const { data: genres, isSuccess } = useGetGenresQuery(mediaType);
+
+  if (isSuccess && genres && genres.length > 0) {
+    return (
+      <Stack spacing={2}>
+        <HeroSection key={mediaType} mediaType={mediaType} />
+        {[...COMMON_TITLES_BY_MEDIA_TYPE[mediaType], ...genres].map(
+          (genre: Genre | CustomGenre) => (
+            <SliderRowForGenre
+              key={`${mediaType}_${genre.id || genre.name}`}
+              genre={genre}
+              mediaType={mediaType}
+            />
+          )
+        )}
+      </Stack>
+    );
+  }
+  return null;
+}
+
+Component.displayName = "BrowsePage";
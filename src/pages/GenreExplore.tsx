@@ -3,7 +3,7 @@ import {
   useLoaderData,
   // useParams
 } from "react-router-dom";
-import { COMMON_TITLES } from "src/constant";
+import { COMMON_TITLES_BY_MEDIA_TYPE } from "src/constant";
 import GridPage from "src/components/GridPage";
 import { MEDIA_TYPE } from "src/types/Common";
 import { CustomGenre, Genre } from "src/types/Genre";
@@ -13,25 +13,35 @@ import {
 } from "src/store/slices/genre";
 import store from "src/store";
 
-export async function loader({ params }: LoaderFunctionArgs) {
-  let genre: CustomGenre | Genre | undefined = COMMON_TITLES.find(
-    (t) => t.apiString === (params.genreId as string)
+type GenreExploreData = {
+  mediaType: MEDIA_TYPE;
+  genre: CustomGenre | Genre | undefined;
+};
+
+export async function loader({
+  params,
+}: LoaderFunctionArgs): Promise<GenreExploreData | null> {
+  const mediaType = Object.values(MEDIA_TYPE).find(
+    (type) => type === params.mediaType
   );
+  if (!mediaType) {
+    return null;
+  }
+  let genre: CustomGenre | Genre | undefined = COMMON_TITLES_BY_MEDIA_TYPE[
+    mediaType
+  ].find((t) => t.apiString === (params.genreId as string));
   if (!genre) {
     const genres = await store
-      .dispatch(genreSliceEndpoints.getGenres.initiate(MEDIA_TYPE.Movie))
+      .dispatch(genreSliceEndpoints.getGenres.initiate(mediaType))
       .unwrap();
     genre = genres?.find((t) => t.id.toString() === (params.genreId as string));
   }
 
-  return genre;
+  return { mediaType, genre };
 }
 
 export function Component() {
-  const genre: CustomGenre | Genre | undefined = useLoaderData() as
-    | CustomGenre
-    | Genre
-    | undefined;
+  const data = useLoaderData() as GenreExploreData | null;
   // const { genreId } = useParams();
   // const { data: genres } = useGetGenresQuery(MEDIA_TYPE.Movie);
   // let genre: Genre | CustomGenre | undefined;
@@ -40,8 +50,14 @@ export function Component() {
   // } else {
   //   genre = genres?.find((t) => t.id.toString() === genreId);
   // }
-  if (genre) {
-    return <GridPage mediaType={MEDIA_TYPE.Movie} genre={genre} />;
+  if (data?.genre) {
+    return (
+      <GridPage
+        key={`${data.mediaType}_${data.genre.name}`}
+        mediaType={data.mediaType}
+        genre={data.genre}
+      />
+    );
   }
   return null;
 }
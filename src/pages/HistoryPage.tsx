@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import { Link as RouterLink } from "react-router-dom";
+import Box from "@mui/material/Box";
+import Chip from "@mui/material/Chip";
+import Link from "@mui/material/Link";
+import Stack from "@mui/material/Stack";
+import Button from "@mui/material/Button";
+import Dialog from "@mui/material/Dialog";
+import Tooltip from "@mui/material/Tooltip";
+import Container from "@mui/material/Container";
+import Typography from "@mui/material/Typography";
+import IconButton from "@mui/material/IconButton";
+import DialogTitle from "@mui/material/DialogTitle";
+import DialogActions from "@mui/material/DialogActions";
+import DialogContent from "@mui/material/DialogContent";
+import LinearProgress from "@mui/material/LinearProgress";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import FileDownloadOutlinedIcon from "@mui/icons-material/FileDownloadOutlined";
+import useWatchHistory from "src/hooks/useWatchHistory";
+import { useGetConfigurationQuery } from "src/store/slices/configuration";
+import { MEDIA_TYPE } from "src/types/Common";
+import { downloadFile } from "src/utils/common";
+import {
+  formatHistoryDay,
+  getHistoryTitle,
+  groupHistoryByDay,
+  historyToCsv,
+} from "src/utils/history";
+import { getWatchPath } from "src/utils/media";
+
+export function Component() {
+  const { entries, remove, clear } = useWatchHistory();
+  const { data: configuration } = useGetConfigurationQuery(undefined);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const groups = useMemo(() => groupHistoryByDay(entries), [entries]);
+
+  const handleExportJson = () => {
+    downloadFile(
+      JSON.stringify(entries, null, 2),
+      "udongflix-history.json",
+      "application/json"
+    );
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(historyToCsv(entries), "udongflix-history.csv", "text/csv");
+  };
+
+  const handleClear = () => {
+    clear();
+    setConfirmClear(false);
+  };
+
+  return (
+    <Container
+      maxWidth="md"
+      sx={{ pt: "150px", pb: 4, minHeight: "100vh", color: "text.primary" }}
+    >
+      <Typography variant="h4" sx={{ mb: 1 }}>
+        Watch History
+      </Typography>
+      <Typography sx={{ color: "text.secondary", mb: 3 }}>
+        Everything this profile has watched. Trailers aren't included.
+      </Typography>
+      <Stack direction="row" spacing={1} sx={{ mb: 3 }}>
+        <Button
+          variant="contained"
+          color="inherit"
+          startIcon={<FileDownloadOutlinedIcon />}
+          disabled={entries.length === 0}
+          onClick={handleExportJson}
+          sx={{ color: "black" }}
+        >
+          JSON
+        </Button>
+        <Button
+          variant="contained"
+          color="inherit"
+          startIcon={<FileDownloadOutlinedIcon />}
+          disabled={entries.length === 0}
+          onClick={handleExportCsv}
+          sx={{ color: "black" }}
+        >
+          CSV
+        </Button>
+        <Box flexGrow={1} />
+        <Button
+          color="error"
+          disabled={entries.length === 0}
+          onClick={() => setConfirmClear(true)}
+        >
+          Clear all
+        </Button>
+      </Stack>
+      {entries.length === 0 && (
+        <Typography sx={{ color: "text.secondary" }}>
+          Nothing watched yet.
+        </Typography>
+      )}
+      <Stack spacing={4}>
+        {groups.map(({ day, entries: dayEntries }) => (
+          <div key={day}>
+            <Typography variant="h6" sx={{ mb: 1.5 }}>
+              {formatHistoryDay(day)}
+            </Typography>
+            <Stack spacing={1.5}>
+              {dayEntries.map((entry) => (
+                <Stack
+                  key={entry.id}
+                  direction="row"
+                  spacing={2}
+                  alignItems="center"
+                  sx={{ p: 1.5, borderRadius: 1, bgcolor: "#1f1f1f" }}
+                >
+                  <Box
+                    component="img"
+                    alt=""
+                    src={`${configuration?.images.base_url}w185${entry.video.backdrop_path}`}
+                    sx={{
+                      width: 120,
+                      flexShrink: 0,
+                      borderRadius: 0.5,
+                      aspectRatio: "16 / 9",
+                      objectFit: "cover",
+                      bgcolor: "grey.900",
+                    }}
+                  />
+                  <Stack flexGrow={1} spacing={0.75} sx={{ minWidth: 0 }}>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Link
+                        component={RouterLink}
+                        to={getWatchPath(
+                          entry.mediaType,
+                          entry.video.id,
+                          entry.season,
+                          entry.episode
+                        )}
+                        color="inherit"
+                        underline="hover"
+                        noWrap
+                        sx={{ fontWeight: 700 }}
+                      >
+                        {getHistoryTitle(entry)}
+                      </Link>
+                      <Chip
+                        size="small"
+                        label={
+                          entry.mediaType === MEDIA_TYPE.Tv ? "TV" : "Movie"
+                        }
+                      />
+                    </Stack>
+                    <Typography
+                      variant="caption"
+                      sx={{ color: "text.secondary" }}
+                    >
+                      {`${new Date(entry.startedAt).toLocaleTimeString(
+                        undefined,
+                        { hour: "2-digit", minute: "2-digit" }
+                      )} – ${new Date(entry.updatedAt).toLocaleTimeString(
+                        undefined,
+                        { hour: "2-digit", minute: "2-digit" }
+                      )} · ${entry.percentWatched}% watched · ${
+                        entry.providerName
+                      }`}
+                    </Typography>
+                    <LinearProgress
+                      variant="determinate"
+                      value={entry.percentWatched}
+                      sx={{
+                        height: 3,
+                        bgcolor: "grey.800",
+                        "& .NetflixLinearProgress-bar": { bgcolor: "#E50914" },
+                      }}
+                    />
+                  </Stack>
+                  <Tooltip title="Remove">
+                    <IconButton
+                      size="small"
+                      aria-label={`Remove ${getHistoryTitle(entry)}`}
+                      onClick={() => remove(entry.id)}
+                    >
+                      <DeleteOutlineIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Stack>
+              ))}
+            </Stack>
+          </div>
+        ))}
+      </Stack>
+      <Dialog
+        open={confirmClear}
+        onClose={() => setConfirmClear(false)}
+        fullWidth
+        maxWidth="xs"
+      >
+        <DialogTitle>Clear watch history?</DialogTitle>
+        <DialogContent>
+          <Typography sx={{ color: "text.secondary" }}>
+            This removes every entry for this profile. Continue Watching and
+            your ratings are kept.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={() => setConfirmClear(false)}>
+            Cancel
+          </Button>
+          <Button color="error" onClick={handleClear}>
+            Clear all
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
+
+Component.displayName = "HistoryPage";
@@ -1,6 +1,8 @@
 import Stack from "@mui/material/Stack";
 import { COMMON_TITLES } from "src/constant";
 import HeroSection from "src/components/HeroSection";
+import ContinueWatchingRow from "src/components/ContinueWatchingRow";
+import BecauseYouLikedRow from "src/components/BecauseYouLikedRow";
 import { genreSliceEndpoints, useGetGenresQuery } from "src/store/slices/genre";
 import { MEDIA_TYPE } from "src/types/Common";
 import { CustomGenre, Genre } from "src/types/Genre";
@@ -20,6 +22,8 @@ export function Component() {
     return (
       <Stack spacing={2}>
         <HeroSection mediaType={MEDIA_TYPE.Movie} />
+        <ContinueWatchingRow />
+        <BecauseYouLikedRow />
         {[...COMMON_TITLES, ...genres].map((genre: Genre | CustomGenre) => (
           <SliderRowForGenre
             key={genre.id || genre.name}
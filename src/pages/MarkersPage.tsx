@@ -0,0 +1,171 @@
+import { useRef, useState } from "react";
+import Chip from "@mui/material/Chip";
+import Stack from "@mui/material/Stack";
+import Alert from "@mui/material/Alert";
+import Button from "@mui/material/Button";
+import Tooltip from "@mui/material/Tooltip";
+import Container from "@mui/material/Container";
+import Typography from "@mui/material/Typography";
+import IconButton from "@mui/material/IconButton";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import FileUploadOutlinedIcon from "@mui/icons-material/FileUploadOutlined";
+import FileDownloadOutlinedIcon from "@mui/icons-material/FileDownloadOutlined";
+import { useAppDispatch, useAppSelector } from "src/hooks/redux";
+import {
+  importMarkers,
+  removeMarkers,
+  removeSegment,
+} from "src/store/slices/markers";
+import { downloadFile, formatTime } from "src/utils/common";
+import {
+  createMarkerFile,
+  parseMarkerFile,
+  SEGMENT_LABELS,
+} from "src/utils/markers";
+
+export function Component() {
+  const dispatch = useAppDispatch();
+  const markers = useAppSelector((state) => state.markers);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [message, setMessage] = useState<{
+    severity: "success" | "error";
+    text: string;
+  } | null>(null);
+  const entries = Object.entries(markers).sort(
+    ([, a], [, b]) => b.updatedAt - a.updatedAt
+  );
+
+  const handleExport = () => {
+    downloadFile(
+      JSON.stringify(createMarkerFile(markers), null, 2),
+      "udongflix-markers.json",
+      "application/json"
+    );
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseMarkerFile(await file.text());
+      dispatch(importMarkers(imported));
+      setMessage({
+        severity: "success",
+        text: `Imported markers for ${Object.keys(imported).length} titles.`,
+      });
+    } catch (e) {
+      setMessage({
+        severity: "error",
+        text: e instanceof Error ? e.message : "Could not import markers.",
+      });
+    }
+  };
+
+  return (
+    <Container
+      maxWidth="md"
+      sx={{ pt: "150px", pb: 4, minHeight: "100vh", color: "text.primary" }}
+    >
+      <Typography variant="h4" sx={{ mb: 1 }}>
+        Skip Markers
+      </Typography>
+      <Typography sx={{ color: "text.secondary", mb: 3 }}>
+        Intros and credits you marked in the player. Share them by exporting a
+        marker file and importing it on another device.
+      </Typography>
+      <Stack direction="row" spacing={1} sx={{ mb: 2 }}>
+        <Button
+          variant="contained"
+          color="inherit"
+          startIcon={<FileDownloadOutlinedIcon />}
+          disabled={entries.length === 0}
+          onClick={handleExport}
+          sx={{ color: "black" }}
+        >
+          Export
+        </Button>
+        <Button
+          variant="outlined"
+          color="inherit"
+          startIcon={<FileUploadOutlinedIcon />}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Import
+        </Button>
+        <input
+          hidden
+          type="file"
+          accept="application/json,.json"
+          ref={fileInputRef}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              handleImport(file);
+            }
+            event.target.value = "";
+          }}
+        />
+      </Stack>
+      {message && (
+        <Alert
+          severity={message.severity}
+          onClose={() => setMessage(null)}
+          sx={{ mb: 2 }}
+        >
+          {message.text}
+        </Alert>
+      )}
+      <Stack spacing={1.5}>
+        {entries.length === 0 && (
+          <Typography sx={{ color: "text.secondary" }}>
+            No markers yet. Use the settings menu in the player to mark an intro
+            or the credits.
+          </Typography>
+        )}
+        {entries.map(([key, entry]) => (
+          <Stack
+            key={key}
+            direction="row"
+            spacing={2}
+            alignItems="center"
+            sx={{ p: 2, borderRadius: 1, bgcolor: "#1f1f1f" }}
+          >
+            <Stack flexGrow={1} spacing={1} sx={{ minWidth: 0 }}>
+              <div>
+                <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+                  {entry.title ?? key}
+                </Typography>
+                <Typography variant="caption" sx={{ color: "text.disabled" }}>
+                  {key}
+                </Typography>
+              </div>
+              <Stack direction="row" spacing={1} flexWrap="wrap">
+                {entry.segments.map((segment) => (
+                  <Chip
+                    key={segment.type}
+                    size="small"
+                    label={`${SEGMENT_LABELS[segment.type]} ${formatTime(
+                      segment.start
+                    )} – ${formatTime(segment.end)}`}
+                    onDelete={() =>
+                      dispatch(removeSegment({ key, type: segment.type }))
+                    }
+                  />
+                ))}
+              </Stack>
+            </Stack>
+            <Tooltip title="Remove">
+              <IconButton
+                size="small"
+                aria-label="Remove markers"
+                onClick={() => dispatch(removeMarkers(key))}
+              >
+                <DeleteOutlineIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+        ))}
+      </Stack>
+    </Container>
+  );
+}
+
+Component.displayName = "MarkersPage";
@@ -0,0 +1,86 @@
+import { useMemo, useState } from "react";
+import Container from "@mui/material/Container";
+import Typography from "@mui/material/Typography";
+import MenuItem from "@mui/material/MenuItem";
+import TextField from "@mui/material/TextField";
+import GridWithInfiniteScroll from "src/components/GridWithInfiniteScroll";
+import useMyList from "src/hooks/useMyList";
+import { MY_LIST_SORT, MyListItem } from "src/types/MyList";
+
+const SORT_OPTIONS = [
+  { value: MY_LIST_SORT.DateAdded, label: "Date Added" },
+  { value: MY_LIST_SORT.Title, label: "Title" },
+  { value: MY_LIST_SORT.Rating, label: "Rating" },
+];
+
+const MY_LIST_GENRE = { name: "My List", apiString: "my_list" };
+
+function sortItems(items: MyListItem[], sortBy: MY_LIST_SORT) {
+  const sorted = [...items];
+  switch (sortBy) {
+    case MY_LIST_SORT.Title:
+      return sorted.sort((a, b) => a.video.title.localeCompare(b.video.title));
+    case MY_LIST_SORT.Rating:
+      return sorted.sort((a, b) => b.video.vote_average - a.video.vote_average);
+    default:
+      return sorted.sort((a, b) => b.addedAt - a.addedAt);
+  }
+}
+
+export function Component() {
+  const { items } = useMyList();
+  const [sortBy, setSortBy] = useState(MY_LIST_SORT.DateAdded);
+
+  const data = useMemo(
+    () => ({
+      page: 1,
+      total_pages: 1,
+      total_results: items.length,
+      results: sortItems(items, sortBy).map((item) => item.video),
+    }),
+    [items, sortBy]
+  );
+
+  if (items.length === 0) {
+    return (
+      <Container
+        maxWidth={false}
+        sx={{ px: { xs: "30px", sm: "60px" }, pt: "150px", minHeight: "60vh" }}
+      >
+        <Typography variant="h5" sx={{ color: "text.primary", mb: 2 }}>
+          My List
+        </Typography>
+        <Typography sx={{ color: "text.secondary" }}>
+          You haven't added any titles to your list yet.
+        </Typography>
+      </Container>
+    );
+  }
+
+  return (
+    <GridWithInfiniteScroll
+      genre={MY_LIST_GENRE}
+      title="My List"
+      data={data}
+      handleNext={() => {}}
+      headerAction={
+        <TextField
+          select
+          size="small"
+          label="Sort by"
+          value={sortBy}
+          onChange={(event) => setSortBy(event.target.value as MY_LIST_SORT)}
+          sx={{ minWidth: 160 }}
+        >
+          {SORT_OPTIONS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+      }
+    />
+  );
+}
+
+Component.displayName = "MyListPage";
@@ -0,0 +1,132 @@
+import { useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import Box from "@mui/material/Box";
+import Grid from "@mui/material/Grid";
+import Stack from "@mui/material/Stack";
+import Container from "@mui/material/Container";
+import Typography from "@mui/material/Typography";
+import VideoItemWithHover from "src/components/VideoItemWithHover";
+import PersonCard from "src/components/PersonCard";
+import MainLoadingScreen from "src/components/MainLoadingScreen";
+import useIntersectionObserver from "src/hooks/useIntersectionObserver";
+import { useAppSelector } from "src/hooks/redux";
+import { useMaturityFilter } from "src/hooks/useCertification";
+import { useWithoutDisliked } from "src/hooks/useRatings";
+import { useLazySearchMultiQuery } from "src/store/slices/search";
+import { Movie } from "src/types/Movie";
+
+function VideoSection({ title, videos }: { title: string; videos: Movie[] }) {
+  const visibleVideos = useWithoutDisliked(useMaturityFilter(videos)).filter(
+    (v) => !!v.backdrop_path
+  );
+  if (visibleVideos.length === 0) {
+    return null;
+  }
+  return (
+    <Box>
+      <Typography variant="h5" sx={{ color: "text.primary", mb: 2 }}>
+        {title}
+      </Typography>
+      <Grid container spacing={2}>
+        {visibleVideos.map((video) => (
+          <Grid
+            key={`${video.media_type}_${video.id}`}
+            item
+            xs={6}
+            sm={3}
+            md={2}
+            sx={{ zIndex: 1 }}
+          >
+            <VideoItemWithHover video={video} />
+          </Grid>
+        ))}
+      </Grid>
+    </Box>
+  );
+}
+
+export function Component() {
+  const [searchParams] = useSearchParams();
+  const query = (searchParams.get("q") ?? "").trim();
+  const searchState = useAppSelector((state) => state.search);
+  const [searchMulti, { isFetching }] = useLazySearchMultiQuery();
+  const intersectionRef = useRef<HTMLDivElement>(null);
+  const intersection = useIntersectionObserver(intersectionRef);
+
+  const isCurrentQuery = searchState.query === query;
+
+  // The results live in the search slice, which only hears about fulfilled
+  // requests, so pages are always fetched rather than served from the cache
+  useEffect(() => {
+    if (query) {
+      searchMulti({ query, page: 1 });
+    }
+  }, [query]);
+
+  useEffect(() => {
+    if (
+      intersection &&
+      intersection.intersectionRatio === 1 &&
+      isCurrentQuery &&
+      !isFetching &&
+      searchState.page < searchState.total_pages
+    ) {
+      searchMulti({ query, page: searchState.page + 1 });
+    }
+  }, [intersection]);
+
+  const hasResults =
+    searchState.movies.length > 0 ||
+    searchState.tvShows.length > 0 ||
+    searchState.people.length > 0;
+
+  return (
+    <>
+      <Container
+        maxWidth={false}
+        sx={{
+          px: { xs: "30px", sm: "60px" },
+          pb: 4,
+          pt: "150px",
+          bgcolor: "inherit",
+          minHeight: "100vh",
+        }}
+      >
+        {!query && (
+          <Typography variant="h5" sx={{ color: "text.secondary" }}>
+            Search for titles, people and genres.
+          </Typography>
+        )}
+        {query && !isCurrentQuery && isFetching && <MainLoadingScreen />}
+        {query && isCurrentQuery && !hasResults && (
+          <Typography variant="h5" sx={{ color: "text.secondary" }}>
+            {`Your search for "${query}" did not have any matches.`}
+          </Typography>
+        )}
+        {query && isCurrentQuery && hasResults && (
+          <Stack spacing={5}>
+            <VideoSection title="Movies" videos={searchState.movies} />
+            <VideoSection title="TV Shows" videos={searchState.tvShows} />
+            {searchState.people.length > 0 && (
+              <Box>
+                <Typography variant="h5" sx={{ color: "text.primary", mb: 2 }}>
+                  People
+                </Typography>
+                <Grid container spacing={2}>
+                  {searchState.people.map((person) => (
+                    <Grid key={person.id} item xs={6} sm={3} md={2}>
+                      <PersonCard person={person} />
+                    </Grid>
+                  ))}
+                </Grid>
+              </Box>
+            )}
+          </Stack>
+        )}
+      </Container>
+      <Box sx={{ display: "hidden" }} ref={intersectionRef} />
+    </>
+  );
+}
+
+Component.displayName = "SearchPage";
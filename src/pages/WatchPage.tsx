@@ -1,22 +1,64 @@
 import { useState, useRef, useMemo, useEffect } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import Player from "video.js/dist/types/player";
-import { Box, Stack, Typography, Menu, MenuItem } from "@mui/material";
+import {
+  Box,
+  Stack,
+  Typography,
+  Menu,
+  MenuItem,
+  ListSubheader,
+  Alert,
+  Button,
+  Snackbar,
+} from "@mui/material";
 import { SliderUnstyledOwnProps } from "@mui/base/SliderUnstyled";
 import PlayArrowIcon from "@mui/icons-material/PlayArrow";
 import PauseIcon from "@mui/icons-material/Pause";
 import SkipNextIcon from "@mui/icons-material/SkipNext";
+import ArrowLeftIcon from "@mui/icons-material/ArrowLeft";
+import ArrowRightIcon from "@mui/icons-material/ArrowRight";
 import FullscreenIcon from "@mui/icons-material/Fullscreen";
 import FullscreenExitIcon from "@mui/icons-material/FullscreenExit";
 import SettingsIcon from "@mui/icons-material/Settings";
 import BrandingWatermarkOutlinedIcon from "@mui/icons-material/BrandingWatermarkOutlined";
 import KeyboardBackspaceIcon from "@mui/icons-material/KeyboardBackspace";
-import SubtitlesIcon from "@mui/icons-material/Subtitles";
+import KeyboardOutlinedIcon from "@mui/icons-material/KeyboardOutlined";
 import ClosedCaptionIcon from "@mui/icons-material/ClosedCaption";
+import ClosedCaptionOffIcon from "@mui/icons-material/ClosedCaptionOff";
 
 import useWindowSize from "src/hooks/useWindowSize";
-import { formatTime } from "src/utils/common";
-import { YOUTUBE_URL } from "src/constant";
+import {
+  formatBitrate,
+  formatPlaybackRate,
+  formatTime,
+  generateId,
+} from "src/utils/common";
+import {
+  BINGE_AUTOPLAY_LIMIT,
+  EMBED_EVENTS_TIMEOUT_MS,
+  FRAME_STEP_SECONDS,
+  NEXT_EPISODE_OVERLAY_SECONDS,
+  PLAYBACK_RATES,
+  PLAYER_IDLE_TIMEOUT_MS,
+  PROGRESS_SAVE_INTERVAL_MS,
+  SHORTCUT_ARROW_SEEK_SECONDS,
+  SHORTCUT_SEEK_SECONDS,
+  SHORTCUT_VOLUME_STEP,
+} from "src/constant";
+import useNextEpisode from "src/hooks/useNextEpisode";
+import useIdle from "src/hooks/useIdle";
+import usePlaybackProgress, {
+  useProfileProgress,
+} from "src/hooks/usePlaybackProgress";
+import { getProgressKey, isResumable } from "src/utils/playback";
+import {
+  detailToMovie,
+  formatEpisodeLabel,
+  getPlayableSeasons,
+  getWatchPath,
+  isTvDetail,
+} from "src/utils/media";
 
 import MaxLineTypography from "src/components/MaxLineTypography";
 import VolumeControllers from "src/components/watch/VolumeControllers";
@@ -24,15 +66,63 @@ import VideoJSPlayer from "src/components/watch/VideoJSPlayer";
 import VidsrcPlayer from "src/components/watch/VidsrcPlayer";
 import PlayerSeekbar from "src/components/watch/PlayerSeekbar";
 import PlayerControlButton from "src/components/watch/PlayerControlButton";
+import ResumePrompt from "src/components/watch/ResumePrompt";
+import NextEpisodeOverlay from "src/components/watch/NextEpisodeOverlay";
+import StillWatchingPrompt from "src/components/watch/StillWatchingPrompt";
+import SourceMenuItem from "src/components/watch/SourceMenuItem";
+import SkipSegmentButton from "src/components/watch/SkipSegmentButton";
+import CheckMenuItem from "src/components/watch/CheckMenuItem";
+import SubtitlesMenu from "src/components/watch/SubtitlesMenu";
+import CaptionSettingsDialog from "src/components/watch/CaptionSettingsDialog";
+import ShortcutsHelpDialog from "src/components/watch/ShortcutsHelpDialog";
+import PlayerAnnouncer, {
+  PlayerAnnouncement,
+} from "src/components/watch/PlayerAnnouncer";
 import MainLoadingScreen from "src/components/MainLoadingScreen";
 import { useGetAppendedVideosQuery } from "src/store/slices/discover";
+import { useGetTvSeasonQuery } from "src/store/slices/tv";
 import { MEDIA_TYPE } from "src/types/Common";
-import { getVideoSource, getVideoJsType, USE_VIDSRC } from "src/utils/videoSources";
+import { PlaybackController, WatchLocationState } from "src/types/Playback";
+import { StreamRequest } from "src/types/Stream";
+import useStreamResolver from "src/hooks/useStreamResolver";
+import { useMiniPlayer } from "src/providers/MiniPlayerProvider";
+import useSubtitles from "src/hooks/useSubtitles";
+import usePlaybackTracks from "src/hooks/usePlaybackTracks";
+import usePlayerShortcuts from "src/hooks/usePlayerShortcuts";
+import useSeekbarTracks from "src/hooks/useSeekbarTracks";
+import useSegments from "src/hooks/useSegments";
+import usePlaybackRate from "src/hooks/usePlaybackRate";
+import useWatchHistory from "src/hooks/useWatchHistory";
+import useLoopRange from "src/hooks/useLoopRange";
+import { useIsAllowedForMaturity } from "src/hooks/useCertification";
+import usePlayerPreferences from "src/hooks/usePlayerPreferences";
+import { getVideoJsType } from "src/utils/videoSources";
+import { StremioStream } from "src/utils/stremio";
+import { BufferedRange, getBufferedRanges } from "src/utils/seekbar";
+import { findSegmentAt, SEGMENT_LABELS } from "src/utils/markers";
+import {
+  createIframeController,
+  createVideoJsController,
+} from "src/utils/playbackController";
+import {
+  getCaptionSx,
+  getLanguageLabel,
+  isSubtitleFile,
+} from "src/utils/subtitles";
 
 export function Component() {
-  const { mediaType, id } = useParams<{ mediaType: string; id: string }>();
+  const { mediaType, id, season, episode } = useParams<{
+    mediaType: string;
+    id: string;
+    season: string;
+    episode: string;
+  }>();
   const navigate = useNavigate();
+  const location = useLocation();
+  const { openMiniPlayer, closeMiniPlayer } = useMiniPlayer();
   const playerRef = useRef<Player | null>(null);
+  // Video.js or the embed, whichever is playing the title right now
+  const [controller, setController] = useState<PlaybackController | null>(null);
   const settingsMenuRef = useRef<HTMLButtonElement | null>(null);
   
   const [playerState, setPlayerState] = useState({
@@ -41,31 +131,175 @@ export function Component() {
     playedSeconds: 0,
     duration: 0,
     volume: 0.8,
-    loaded: 0,
+    loaded: [] as BufferedRange[],
     isFullscreen: false,
+    isPictureInPicture: false,
   });
 
   const [playerInitialized, setPlayerInitialized] = useState(false);
   const [settingsAnchorEl, setSettingsAnchorEl] = useState<null | HTMLElement>(null);
-  const [subtitleEnabled, setSubtitleEnabled] = useState(false);
+  const [subtitlesAnchorEl, setSubtitlesAnchorEl] =
+    useState<null | HTMLElement>(null);
+  const [captionStyleOpen, setCaptionStyleOpen] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [announcement, setAnnouncement] = useState<PlayerAnnouncement | null>(
+    null
+  );
+  const [subtitleError, setSubtitleError] = useState<string | null>(null);
+  const [isPointerOverControls, setIsPointerOverControls] = useState(false);
+  // Intros are marked in two steps, this holds the start until the end is set
+  const [pendingIntroStart, setPendingIntroStart] = useState<number | null>(
+    null
+  );
+  const [showResumePrompt, setShowResumePrompt] = useState(false);
+  const [nextEpisodeDismissed, setNextEpisodeDismissed] = useState(false);
+  const [showStillWatching, setShowStillWatching] = useState(false);
+  const [isEmbedSilent, setIsEmbedSilent] = useState(false);
 
   const mediaTypeEnum = mediaType === "tv" ? MEDIA_TYPE.Tv : MEDIA_TYPE.Movie;
   const movieId = id ? parseInt(id, 10) : 0;
+  const isTv = mediaTypeEnum === MEDIA_TYPE.Tv;
+  const seasonNumber = isTv && season ? parseInt(season, 10) : undefined;
+  const episodeNumber = isTv && episode ? parseInt(episode, 10) : undefined;
 
   const { data: movieDetail, isLoading } = useGetAppendedVideosQuery(
     { mediaType: mediaTypeEnum, id: movieId },
     { skip: !movieId }
   );
+  // Direct and shared links skip the row filters, so check the title itself
+  const isAllowed = useIsAllowedForMaturity(mediaTypeEnum, movieId);
+  const { data: seasonDetail } = useGetTvSeasonQuery(
+    { id: movieId, seasonNumber: seasonNumber ?? 0 },
+    { skip: !isTv || !seasonNumber }
+  );
+  const currentEpisode = seasonDetail?.episodes.find(
+    (e) => e.episode_number === episodeNumber
+  );
+  const nextEpisode = useNextEpisode(
+    movieDetail,
+    seasonDetail,
+    seasonNumber,
+    episodeNumber
+  );
+  const {
+    autoPlayCount = 0,
+    bingeGroup,
+    startAt,
+  } = (location.state as WatchLocationState | null) ?? {};
+  const progressKey = getProgressKey(
+    mediaTypeEnum,
+    movieId,
+    seasonNumber,
+    episodeNumber
+  );
+
+  const profileProgress = useProfileProgress();
+  const {
+    segments,
+    mark: markSegment,
+    remove: removeSegmentMarker,
+  } = useSegments(mediaTypeEnum, movieId, seasonNumber, episodeNumber);
+  const { progress: savedProgress, save: saveProgress } = usePlaybackProgress(
+    mediaTypeEnum,
+    movieId,
+    seasonNumber,
+    episodeNumber
+  );
+  // Only the progress found when entering the page decides the resume prompt
+  const resumeFrom = useMemo(
+    () => (isResumable(savedProgress) ? savedProgress : undefined),
+    [mediaTypeEnum, movieId, seasonNumber, episodeNumber]
+  );
+  const { log: logHistory } = useWatchHistory();
+  // Every visit to a title or episode is its own history entry
+  const historyId = useMemo(() => generateId(), [progressKey]);
+  const resumeFromRef = useRef(resumeFrom);
+  resumeFromRef.current = resumeFrom;
+  const lastProgressSaveRef = useRef(0);
+  const persistProgressRef = useRef<() => void>(() => {});
 
   const windowSize = useWindowSize();
   
-  // Get video source - prioritize Vidsrc for full movies
+  // Resolve the video source through the provider pipeline, trailers last
   const mediaTypeStr = mediaType === "tv" ? "tv" : "movie";
-  const fullMovieSource = useMemo(() => {
-    return getVideoSource(movieId, mediaTypeStr);
-  }, [movieId, mediaTypeStr]);
+  const streamRequest = useMemo<StreamRequest | null>(() => {
+    if (!movieDetail || (isTv && !seasonNumber) || !isAllowed) {
+      return null;
+    }
+    const videos = movieDetail.videos?.results || [];
+    const youtubeVideos = videos.filter((v) => v.site === "YouTube");
+    const trailer =
+      youtubeVideos.find((v) => v.type === "Trailer") ||
+      youtubeVideos.find((v) => v.type === "Teaser") ||
+      youtubeVideos.find((v) => v.type === "Clip") ||
+      youtubeVideos[0];
+    return {
+      tmdbId: movieId,
+      mediaType: mediaTypeStr,
+      season: seasonNumber,
+      episode: episodeNumber,
+      imdbId: isTvDetail(movieDetail)
+        ? undefined
+        : movieDetail.imdb_id || undefined,
+      trailerKey: trailer?.key,
+      bingeGroup,
+    };
+  }, [
+    movieDetail,
+    movieId,
+    mediaTypeStr,
+    isTv,
+    seasonNumber,
+    episodeNumber,
+    bingeGroup,
+    isAllowed,
+  ]);
+  const { stream, isResolving, reportFailure, selectStremioStream } =
+    useStreamResolver(streamRequest);
+  // Where to pick up again after switching to another source
+  const pendingSeekRef = useRef<number | null>(startAt ?? null);
+  const streamRef = useRef(stream);
+  streamRef.current = stream;
+  const fullMovieSource = stream?.source ?? null;
+  const subtitles = useSubtitles(
+    playerInitialized ? playerRef.current : null,
+    stream?.stremioStream?.subtitles
+  );
+  const playbackTracks = usePlaybackTracks(
+    playerInitialized ? playerRef.current : null
+  );
+  const seekbarTracks = useSeekbarTracks(fullMovieSource);
+  const playbackRate = usePlaybackRate(
+    playerInitialized ? playerRef.current : null
+  );
+  const loopRange = useLoopRange(playerInitialized ? playerRef.current : null);
+  const { preferences } = usePlayerPreferences();
   
   const isVidsrc = fullMovieSource?.type === 'vidsrc';
+  // Trailer fallbacks must not count as watching the title itself
+  const isFullMovie = !!fullMovieSource && fullMovieSource.type !== "youtube";
+
+  persistProgressRef.current = () => {
+    if (!isFullMovie || !movieDetail || !controller) {
+      return;
+    }
+    const position = controller.currentTime();
+    const duration = controller.duration();
+    const video = detailToMovie(movieDetail, mediaTypeEnum);
+    saveProgress(position, duration, video);
+    if (position > 0 && duration > 0 && isFinite(duration)) {
+      logHistory({
+        id: historyId,
+        mediaType: mediaTypeEnum,
+        season: seasonNumber,
+        episode: episodeNumber,
+        updatedAt: Date.now(),
+        percentWatched: Math.round(Math.min(position / duration, 1) * 100),
+        providerName: stream?.providerName ?? "",
+        video,
+      });
+    }
+  };
   
   const videoJsOptions = useMemo(() => {
     // If using Vidsrc, skip VideoJS setup
@@ -73,34 +307,21 @@ export function Component() {
       return { width: 0, height: 0 }; // Return empty options to prevent VideoJS initialization
     }
     
-    // Priority 2: Fallback to TMDB trailers if no full movie source
-    const videos = movieDetail?.videos?.results || [];
-    const trailer = videos.find(v => v.type === "Trailer" && v.site === "YouTube");
-    const teaser = videos.find(v => v.type === "Teaser" && v.site === "YouTube");
-    const clip = videos.find(v => v.type === "Clip" && v.site === "YouTube");
-    const firstVideo = videos.find(v => v.site === "YouTube");
-    const tmdbVideo = trailer || teaser || clip || firstVideo;
-    
     // Determine video source
     let videoUrl: string;
     let videoType: string;
     let techOrder: string[] | undefined;
     
-    if (fullMovieSource && fullMovieSource.type !== 'youtube' && fullMovieSource.type !== 'vidsrc') {
-      // Use full movie from video hosting service (HLS, MP4, etc.)
+    if (fullMovieSource?.type === "youtube") {
+      // Trailer fallback or YouTube video from custom source
       videoUrl = fullMovieSource.url;
-      videoType = getVideoJsType(fullMovieSource);
-      techOrder = undefined; // Use native HTML5 player for HLS/MP4
-    } else if (tmdbVideo?.key) {
-      // Use TMDB trailer as fallback
-      videoUrl = `${YOUTUBE_URL}${tmdbVideo.key}`;
       videoType = "video/youtube";
       techOrder = ["youtube"];
-    } else if (fullMovieSource?.type === 'youtube') {
-      // YouTube video from custom source
+    } else if (fullMovieSource) {
+      // Use full movie from video hosting service (HLS, MP4, etc.)
       videoUrl = fullMovieSource.url;
-      videoType = "video/youtube";
-      techOrder = ["youtube"];
+      videoType = getVideoJsType(fullMovieSource);
+      techOrder = undefined; // Use native HTML5 player for HLS/MP4
     } else {
       // Default sample video
       videoUrl = "https://bitmovin-a.akamaihd.net/content/sintel/hls/playlist.m3u8";
@@ -130,7 +351,7 @@ export function Component() {
         },
       ],
     };
-  }, [windowSize, movieDetail, movieId, isVidsrc, fullMovieSource]);
+  }, [windowSize, isVidsrc, fullMovieSource]);
 
   useEffect(() => {
     if (!mediaType || !id) {
@@ -138,28 +359,151 @@ export function Component() {
     }
   }, [mediaType, id, navigate]);
 
-  const handlePlayerReady = function (player: Player): void {
-    player.on("pause", () => {
-      setPlayerState((draft) => {
-        return { ...draft, paused: true };
-      });
-    });
+  // `/watch/tv/:id` continues the last watched episode, or starts from the first one
+  useEffect(() => {
+    if (!isTv || seasonNumber || !movieDetail || !isTvDetail(movieDetail)) {
+      return;
+    }
+    const lastWatched = Object.values(profileProgress)
+      .filter((p) => p.mediaType === MEDIA_TYPE.Tv && p.id === movieId)
+      .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+    const firstSeason = getPlayableSeasons(movieDetail)[0]?.season_number ?? 1;
+    navigate(
+      getWatchPath(
+        MEDIA_TYPE.Tv,
+        movieId,
+        lastWatched?.season ?? firstSeason,
+        lastWatched?.episode ?? 1
+      ),
+      { replace: true }
+    );
+  }, [isTv, seasonNumber, movieDetail, movieId]);
 
-    player.on("play", () => {
-      setPlayerState((draft) => {
-        return { ...draft, paused: false };
-      });
+  useEffect(() => {
+    // Playback moves back here from the mini-player
+    closeMiniPlayer();
+    return () => {
+      persistProgressRef.current();
+    };
+  }, []);
+
+  // Each episode gets a fresh player, so reset everything tied to the previous one
+  useEffect(() => {
+    setPlayerInitialized(false);
+    setShowResumePrompt(false);
+    setNextEpisodeDismissed(false);
+    setShowStillWatching(false);
+    setPendingIntroStart(null);
+    setPlayerState((draft) => ({
+      ...draft,
+      playedSeconds: 0,
+      duration: 0,
+      loaded: [],
+    }));
+  }, [progressKey]);
+
+  // Progress, resume and the next episode only go through the controller so
+  // they behave the same for Video.js and embeds
+  useEffect(() => {
+    if (!controller) {
+      return;
+    }
+    let started = false;
+    const handlePause = () => {
+      setPlayerState((draft) => ({ ...draft, paused: true }));
+      persistProgressRef.current();
+    };
+    const handlePlay = () => {
+      setPlayerState((draft) => ({ ...draft, paused: false }));
+    };
+    const handleEnded = () => {
+      persistProgressRef.current();
+    };
+    const handleTimeUpdate = () => {
+      setPlayerState((draft) => ({
+        ...draft,
+        playedSeconds: controller.currentTime(),
+      }));
+      if (
+        Date.now() - lastProgressSaveRef.current >
+        PROGRESS_SAVE_INTERVAL_MS
+      ) {
+        lastProgressSaveRef.current = Date.now();
+        persistProgressRef.current();
+      }
+    };
+    const handleDurationChange = () => {
+      setPlayerState((draft) => ({
+        ...draft,
+        duration: controller.duration(),
+      }));
+      if (started) {
+        return;
+      }
+      started = true;
+      setPlayerInitialized(true);
+      if (pendingSeekRef.current !== null) {
+        controller.seek(pendingSeekRef.current);
+        pendingSeekRef.current = null;
+      } else if (resumeFromRef.current && controller.capabilities.control) {
+        controller.pause();
+        setShowResumePrompt(true);
+      }
+    };
+
+    controller.on("pause", handlePause);
+    controller.on("play", handlePlay);
+    controller.on("ended", handleEnded);
+    controller.on("timeupdate", handleTimeUpdate);
+    controller.on("durationchange", handleDurationChange);
+    // Metadata may have loaded before we started listening
+    if (controller.duration() > 0) {
+      handleDurationChange();
+    }
+    return () => {
+      controller.off("pause", handlePause);
+      controller.off("play", handlePlay);
+      controller.off("ended", handleEnded);
+      controller.off("timeupdate", handleTimeUpdate);
+      controller.off("durationchange", handleDurationChange);
+      controller.dispose();
+    };
+  }, [controller]);
+
+  // Without playback events from the embed nothing can be tracked, say so
+  // instead of failing silently
+  useEffect(() => {
+    setIsEmbedSilent(false);
+    if (controller?.kind !== "iframe" || playerInitialized) {
+      return;
+    }
+    const timeoutId = setTimeout(
+      () => setIsEmbedSilent(true),
+      EMBED_EVENTS_TIMEOUT_MS
+    );
+    return () => clearTimeout(timeoutId);
+  }, [controller, playerInitialized]);
+
+  const handlePlayerReady = function (player: Player): void {
+    player.on("progress", () => {
+      setPlayerState((draft) => ({
+        ...draft,
+        loaded: getBufferedRanges(player.buffered()),
+      }));
     });
 
-    player.on("timeupdate", () => {
-      setPlayerState((draft) => {
-        return { ...draft, playedSeconds: player.currentTime() };
-      });
+    // Fall through to the next provider when this one can't be played
+    player.on("error", () => {
+      if (streamRef.current) {
+        reportFailure(streamRef.current.providerId);
+      }
     });
 
-    player.one("durationchange", () => {
-      setPlayerInitialized(true);
-      setPlayerState((draft) => ({ ...draft, duration: player.duration() }));
+    player.on(["enterpictureinpicture", "leavepictureinpicture"], () => {
+      setPlayerState((draft) => ({
+        ...draft,
+        isPictureInPicture: player.isInPictureInPicture(),
+      }));
     });
 
     player.on("fullscreenchange", () => {
@@ -170,12 +514,17 @@ export function Component() {
     });
 
     playerRef.current = player;
+    setController(createVideoJsController(player));
 
     setPlayerState((draft) => {
       return { ...draft, paused: player.paused() };
     });
   };
 
+  const handleEmbedReady = (iframe: HTMLIFrameElement) => {
+    setController(createIframeController(iframe));
+  };
+
   const handleVolumeChange: SliderUnstyledOwnProps["onChange"] = (_, value) => {
     playerRef.current?.volume((value as number) / 100);
     setPlayerState((draft) => {
@@ -187,10 +536,168 @@ export function Component() {
     playerRef.current?.currentTime(v);
   };
 
+  const announce = (message: string) => {
+    setAnnouncement((current) => ({ message, id: (current?.id ?? 0) + 1 }));
+  };
+
+  const handleTogglePlay = () => {
+    const player = playerRef.current;
+    if (!player) {
+      return;
+    }
+    if (player.paused()) {
+      player.play();
+    } else {
+      player.pause();
+    }
+  };
+
+  const handleToggleMute = () => {
+    playerRef.current?.muted(!playerState.muted);
+    setPlayerState((draft) => {
+      return { ...draft, muted: !draft.muted };
+    });
+  };
+
+  const handleSeekBy = (seconds: number) => {
+    const player = playerRef.current;
+    if (!player) {
+      return;
+    }
+    player.currentTime(
+      Math.min(Math.max(player.currentTime() + seconds, 0), player.duration())
+    );
+    announce(
+      `${seconds > 0 ? "Forward" : "Rewind"} ${Math.abs(seconds)} seconds`
+    );
+  };
+
+  const handleVolumeStep = (step: number) => {
+    const volume = Math.min(Math.max(playerState.volume + step, 0), 1);
+    playerRef.current?.volume(volume);
+    playerRef.current?.muted(false);
+    setPlayerState((draft) => ({ ...draft, volume, muted: false }));
+    announce(`Volume ${Math.round(volume * 100)}%`);
+  };
+
+  const handleStepFrame = (direction: 1 | -1) => {
+    const player = playerRef.current;
+    // Stepping only makes sense on a still picture
+    if (!player?.paused()) {
+      return;
+    }
+    player.currentTime(
+      Math.min(
+        Math.max(player.currentTime() + direction * FRAME_STEP_SECONDS, 0),
+        player.duration()
+      )
+    );
+  };
+
+  const handlePlaybackRateStep = (direction: 1 | -1) => {
+    const rate = playbackRate.stepRate(direction);
+    announce(`Speed ${formatPlaybackRate(rate)}`);
+  };
+
+  const handleLoopPoint = () => {
+    const loop = loopRange.setPoint();
+    if (!loop) {
+      announce("Loop cleared");
+    } else if (loop.end === null) {
+      announce(`Loop start set at ${formatTime(loop.start)}`);
+    } else {
+      announce(`Looping ${formatTime(loop.start)} to ${formatTime(loop.end)}`);
+    }
+  };
+
+  const handleNextEpisode = (autoPlayed: boolean) => {
+    if (!nextEpisode) {
+      return;
+    }
+    persistProgressRef.current();
+    const state: WatchLocationState = {
+      autoPlayCount: autoPlayed ? autoPlayCount + 1 : 0,
+      bingeGroup:
+        stream?.stremioStream?.behaviorHints?.bingeGroup ?? bingeGroup,
+    };
+    navigate(
+      getWatchPath(
+        MEDIA_TYPE.Tv,
+        movieId,
+        nextEpisode.season,
+        nextEpisode.episode
+      ),
+      { state }
+    );
+  };
+
+  const handleNextEpisodeCountdownEnd = () => {
+    if (autoPlayCount >= BINGE_AUTOPLAY_LIMIT) {
+      // An embed we can't pause would keep playing behind the prompt, leave
+      // the overlay up for the viewer to pick instead
+      if (controller?.capabilities.control) {
+        controller.pause();
+        setShowStillWatching(true);
+      }
+    } else {
+      handleNextEpisode(true);
+    }
+  };
+
   const handleGoBack = () => {
+    const player = playerRef.current;
+    // Keep the title playing in the mini-player while browsing
+    if (
+      isFullMovie &&
+      fullMovieSource &&
+      movieDetail &&
+      player &&
+      !player.isDisposed() &&
+      !player.paused()
+    ) {
+      openMiniPlayer({
+        source: fullMovieSource,
+        title:
+          seasonNumber && episodeNumber
+            ? `${movieDetail.title} ${formatEpisodeLabel(
+                seasonNumber,
+                episodeNumber
+              )}`
+            : movieDetail.title,
+        watchPath: getWatchPath(
+          mediaTypeEnum,
+          movieId,
+          seasonNumber,
+          episodeNumber
+        ),
+        position: player.currentTime(),
+        mediaType: mediaTypeEnum,
+        id: movieId,
+        season: seasonNumber,
+        episode: episodeNumber,
+        video: detailToMovie(movieDetail, mediaTypeEnum),
+        bingeGroup: stream?.stremioStream?.behaviorHints?.bingeGroup,
+        providerName: stream?.providerName ?? "",
+        historyId,
+      });
+    }
     navigate("/browse");
   };
 
+  const isPictureInPictureSupported =
+    document.pictureInPictureEnabled && fullMovieSource?.type !== "youtube";
+
+  const handlePictureInPicture = () => {
+    const player = playerRef.current;
+    if (!player) {
+      return;
+    }
+    (player.isInPictureInPicture()
+      ? player.exitPictureInPicture()
+      : player.requestPictureInPicture()
+    ).catch((error) => console.warn("Picture-in-Picture failed:", error));
+  };
+
   const handleFullscreen = () => {
     if (playerRef.current) {
       if (playerRef.current.isFullscreen()) {
@@ -209,19 +716,256 @@ export function Component() {
     setSettingsAnchorEl(null);
   };
 
-  const handleSubtitleToggle = () => {
-    setSubtitleEnabled(!subtitleEnabled);
+  const handleResume = () => {
+    if (resumeFrom) {
+      controller?.seek(resumeFrom.position);
+    }
+    controller?.play();
+    setShowResumePrompt(false);
+  };
+
+  const handleStartOver = () => {
+    controller?.seek(0);
+    controller?.play();
+    setShowResumePrompt(false);
+  };
+
+  const handleSelectSource = (stremioStream: StremioStream) => {
     handleSettingsClose();
-    // Note: Video.js subtitle support would need additional configuration
-    // This is a basic toggle for UI
+    if (stremioStream.url === stream?.stremioStream?.url) {
+      return;
+    }
+    persistProgressRef.current();
+    pendingSeekRef.current = playerRef.current?.currentTime() ?? null;
+    selectStremioStream(stremioStream);
+  };
+
+  const handleToggleCaptions = () => {
+    if (subtitles.activeTrack) {
+      announce("Subtitles off");
+    } else if (subtitles.tracks.length > 0) {
+      announce("Subtitles on");
+    } else {
+      announce("No subtitles available");
+    }
+    subtitles.toggle();
   };
 
-  if (isLoading || !movieDetail) {
+  const handleAddSubtitleFile = async (file: File) => {
+    try {
+      await subtitles.addLocalFile(file);
+      setSubtitleError(null);
+    } catch (e) {
+      const message =
+        e instanceof Error ? e.message : "Could not load the subtitle file.";
+      setSubtitleError(message);
+      announce(message);
+    }
+  };
+
+  const handleSubtitleDrop = (event: React.DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    const file = Array.from(event.dataTransfer.files).find(isSubtitleFile);
+    if (file) {
+      handleAddSubtitleFile(file);
+    }
+  };
+
+  usePlayerShortcuts(
+    {
+      togglePlay: () => {
+        handleTogglePlay();
+        announce(playerRef.current?.paused() ? "Paused" : "Playing");
+      },
+      rewind: () => handleSeekBy(-SHORTCUT_SEEK_SECONDS),
+      forward: () => handleSeekBy(SHORTCUT_SEEK_SECONDS),
+      seekBackward: () => handleSeekBy(-SHORTCUT_ARROW_SEEK_SECONDS),
+      seekForward: () => handleSeekBy(SHORTCUT_ARROW_SEEK_SECONDS),
+      volumeUp: () => handleVolumeStep(SHORTCUT_VOLUME_STEP),
+      volumeDown: () => handleVolumeStep(-SHORTCUT_VOLUME_STEP),
+      mute: () => {
+        handleToggleMute();
+        announce(playerState.muted ? "Unmuted" : "Muted");
+      },
+      fullscreen: handleFullscreen,
+      captions: handleToggleCaptions,
+      nextEpisode: () => {
+        if (nextEpisode) {
+          handleNextEpisode(false);
+        }
+      },
+      jump: (key) => {
+        const percent = Number(key) * 10;
+        handleSeekTo((playerState.duration * percent) / 100);
+        announce(`Jumped to ${percent}%`);
+      },
+      previousFrame: () => handleStepFrame(-1),
+      nextFrame: () => handleStepFrame(1),
+      slower: () => handlePlaybackRateStep(-1),
+      faster: () => handlePlaybackRateStep(1),
+      loop: handleLoopPoint,
+      help: () => setShowShortcuts((value) => !value),
+    },
+    playerInitialized && !isVidsrc && !showResumePrompt && !showStillWatching
+  );
+
+  // Controls stay put while there's something to look at or interact with
+  const isChromePinned =
+    playerState.paused ||
+    isPointerOverControls ||
+    showShortcuts ||
+    captionStyleOpen ||
+    Boolean(settingsAnchorEl) ||
+    Boolean(subtitlesAnchorEl);
+  const isIdle = useIdle(
+    PLAYER_IDLE_TIMEOUT_MS,
+    playerInitialized && !isChromePinned
+  );
+
+  if (isAllowed === false) {
+    return (
+      <Stack
+        spacing={2}
+        alignItems="center"
+        justifyContent="center"
+        sx={{ height: "100vh", px: 3, color: "white", textAlign: "center" }}
+      >
+        <Typography variant="h5">Not available on this profile</Typography>
+        <Typography sx={{ color: "grey.400" }}>
+          This title is rated above the profile's maturity setting.
+        </Typography>
+        <Button
+          variant="contained"
+          color="inherit"
+          onClick={() => navigate("/browse")}
+          sx={{ color: "black" }}
+        >
+          Back to Browse
+        </Button>
+      </Stack>
+    );
+  }
+
+  if (
+    isLoading ||
+    !movieDetail ||
+    (isTv && !seasonNumber) ||
+    isResolving ||
+    isAllowed === null
+  ) {
     return <MainLoadingScreen />;
   }
 
+  const displayTitle =
+    isTv && seasonNumber && episodeNumber
+      ? `${movieDetail.title} ${formatEpisodeLabel(
+          seasonNumber,
+          episodeNumber
+        )}${currentEpisode ? ` "${currentEpisode.name}"` : ""}`
+      : movieDetail.title;
+
+  const activeSegment = findSegmentAt(segments, playerState.playedSeconds);
+  const isNextEpisodeOverlayVisible =
+    !!nextEpisode &&
+    !nextEpisodeDismissed &&
+    !showStillWatching &&
+    playerState.duration > 0 &&
+    playerState.duration - playerState.playedSeconds <=
+      NEXT_EPISODE_OVERLAY_SECONDS;
+
+  const handleMarkIntro = () => {
+    handleSettingsClose();
+    const time = playerRef.current?.currentTime() ?? 0;
+    if (pendingIntroStart === null) {
+      setPendingIntroStart(time);
+      announce("Intro start marked");
+      return;
+    }
+    if (time <= pendingIntroStart) {
+      announce("The intro has to end after it starts");
+      return;
+    }
+    markSegment(
+      { type: "intro", start: pendingIntroStart, end: time },
+      displayTitle
+    );
+    setPendingIntroStart(null);
+    announce("Intro marked");
+  };
+
+  const handleMarkCredits = () => {
+    handleSettingsClose();
+    const player = playerRef.current;
+    if (!player) {
+      return;
+    }
+    markSegment(
+      { type: "credits", start: player.currentTime(), end: player.duration() },
+      displayTitle
+    );
+    announce("Credits marked");
+  };
+
+  // Everything here only needs the controller, so it's shown over either player
+  const playbackOverlays = (
+    <>
+      {activeSegment?.type === "intro" && controller?.capabilities.control && (
+        <SkipSegmentButton onClick={() => controller.seek(activeSegment.end)}>
+          Skip Intro
+        </SkipSegmentButton>
+      )}
+      {activeSegment?.type === "credits" &&
+        nextEpisode &&
+        !isNextEpisodeOverlayVisible &&
+        !showStillWatching && (
+          <SkipSegmentButton onClick={() => handleNextEpisode(false)}>
+            Next Episode
+          </SkipSegmentButton>
+        )}
+      {nextEpisode && isNextEpisodeOverlayVisible && (
+        <NextEpisodeOverlay
+          nextEpisode={nextEpisode}
+          fallbackImage={movieDetail.backdrop_path}
+          onPlayNext={() => handleNextEpisode(false)}
+          onDismiss={() => setNextEpisodeDismissed(true)}
+          onCountdownEnd={handleNextEpisodeCountdownEnd}
+        />
+      )}
+      {showStillWatching && (
+        <StillWatchingPrompt
+          title={movieDetail.title}
+          onContinue={() => handleNextEpisode(false)}
+          onExit={handleGoBack}
+        />
+      )}
+      <PlayerAnnouncer announcement={announcement} />
+      <Snackbar
+        open={!!subtitleError}
+        autoHideDuration={6000}
+        onClose={() => setSubtitleError(null)}
+        anchorOrigin={{ vertical: "top", horizontal: "center" }}
+      >
+        <Alert
+          severity="error"
+          variant="filled"
+          onClose={() => setSubtitleError(null)}
+        >
+          {subtitleError}
+        </Alert>
+      </Snackbar>
+      {showResumePrompt && resumeFrom && (
+        <ResumePrompt
+          title={displayTitle}
+          position={resumeFrom.position}
+          onResume={handleResume}
+          onStartOver={handleStartOver}
+        />
+      )}
+    </>
+  );
+
   // Use Vidsrc iframe for full movies
-  if (isVidsrc && movieId) {
+  if (isVidsrc && fullMovieSource) {
     return (
       <Box
         sx={{
@@ -231,19 +975,55 @@ export function Component() {
           overflow: "hidden",
         }}
       >
-        <Box px={2} sx={{ position: "absolute", top: 75, zIndex: 1000 }}>
-          <PlayerControlButton onClick={handleGoBack}>
+        <Stack
+          px={2}
+          direction="row"
+          spacing={2}
+          alignItems="center"
+          sx={{ position: "absolute", top: 75, zIndex: 1000 }}
+        >
+          <PlayerControlButton
+            aria-label="Back to browse"
+            onClick={handleGoBack}
+          >
             <KeyboardBackspaceIcon />
           </PlayerControlButton>
-        </Box>
+          {nextEpisode && (
+            <PlayerControlButton
+              aria-label="Next episode"
+              onClick={() => handleNextEpisode(false)}
+            >
+              <SkipNextIcon />
+            </PlayerControlButton>
+          )}
+          <Stack>
+            <Typography variant="subtitle2" sx={{ color: "white" }}>
+              {displayTitle}
+            </Typography>
+            <Typography variant="caption" sx={{ color: "grey.400" }}>
+              {`Source: ${stream?.providerName}`}
+              {/* The embed can't be told where to start, so just say where */}
+              {resumeFrom &&
+                ` · Last watched at ${formatTime(resumeFrom.position)}`}
+            </Typography>
+            {isEmbedSilent && (
+              <Typography variant="caption" sx={{ color: "warning.light" }}>
+                This source doesn't report playback, so progress isn't saved and
+                episodes won't continue automatically.
+              </Typography>
+            )}
+          </Stack>
+        </Stack>
         <VidsrcPlayer
-          tmdbId={movieId}
-          mediaType={mediaTypeStr}
+          key={`${progressKey}_${fullMovieSource.url}`}
+          src={fullMovieSource.url}
+          onReady={handleEmbedReady}
           sx={{
             width: windowSize.width,
             height: windowSize.height,
           }}
         />
+        {playbackOverlays}
       </Box>
     );
   }
@@ -254,9 +1034,21 @@ export function Component() {
       <Box
         sx={{
           position: "relative",
+          ...getCaptionSx(preferences.captionStyle),
+          ...(isIdle &&
+            playerState.isFullscreen && {
+              cursor: "none",
+              "& .video-js": { cursor: "none" },
+            }),
         }}
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={handleSubtitleDrop}
       >
-        <VideoJSPlayer options={videoJsOptions} onReady={handlePlayerReady} />
+        <VideoJSPlayer
+          key={`${progressKey}_${fullMovieSource?.url}`}
+          options={videoJsOptions}
+          onReady={handlePlayerReady}
+        />
         {playerRef.current && playerInitialized && (
           <Box
             sx={{
@@ -265,10 +1057,20 @@ export function Component() {
               right: 0,
               bottom: 0,
               position: "absolute",
+              opacity: isIdle ? 0 : 1,
+              transition: "opacity .5s",
             }}
           >
-            <Box px={2} sx={{ position: "absolute", top: 75 }}>
-              <PlayerControlButton onClick={handleGoBack}>
+            <Box
+              px={2}
+              sx={{ position: "absolute", top: 75 }}
+              onMouseEnter={() => setIsPointerOverControls(true)}
+              onMouseLeave={() => setIsPointerOverControls(false)}
+            >
+              <PlayerControlButton
+                aria-label="Back to browse"
+                onClick={handleGoBack}
+              >
                 <KeyboardBackspaceIcon />
               </PlayerControlButton>
             </Box>
@@ -276,6 +1078,8 @@ export function Component() {
             <Box
               px={{ xs: 1, sm: 2 }}
               sx={{ position: "absolute", bottom: 20, left: 0, right: 0 }}
+              onMouseEnter={() => setIsPointerOverControls(true)}
+              onMouseLeave={() => setIsPointerOverControls(false)}
             >
               {/* Seekbar */}
               <Stack direction="row" alignItems="center" spacing={1}>
@@ -283,6 +1087,28 @@ export function Component() {
                   playedSeconds={playerState.playedSeconds}
                   duration={playerState.duration}
                   seekTo={handleSeekTo}
+                  buffered={playerState.loaded}
+                  chapters={seekbarTracks.chapters}
+                  thumbnails={seekbarTracks.thumbnails}
+                  markers={[
+                    ...segments.map(({ type, start, end }) => ({
+                      start,
+                      end,
+                      label: SEGMENT_LABELS[type],
+                    })),
+                    ...(pendingIntroStart !== null
+                      ? [{ start: pendingIntroStart, label: "Intro start" }]
+                      : []),
+                    ...(loopRange.loop
+                      ? [
+                          {
+                            start: loopRange.loop.start,
+                            end: loopRange.loop.end ?? undefined,
+                            label: "Loop",
+                          },
+                        ]
+                      : []),
+                  ]}
                 />
               </Stack>
               {/* end Seekbar */}
@@ -295,34 +1121,40 @@ export function Component() {
                   spacing={{ xs: 0.5, sm: 1.5, md: 2 }}
                   alignItems="center"
                 >
-                  {!playerState.paused ? (
+                  {/* A single button keeps keyboard focus while toggling */}
+                  <PlayerControlButton
+                    aria-label={playerState.paused ? "Play" : "Pause"}
+                    onClick={handleTogglePlay}
+                  >
+                    {playerState.paused ? <PlayArrowIcon /> : <PauseIcon />}
+                  </PlayerControlButton>
+                  {playerState.paused && [
                     <PlayerControlButton
-                      onClick={() => {
-                        playerRef.current?.pause();
-                      }}
+                      key="previous-frame"
+                      aria-label="Previous frame"
+                      onClick={() => handleStepFrame(-1)}
                     >
-                      <PauseIcon />
-                    </PlayerControlButton>
-                  ) : (
+                      <ArrowLeftIcon />
+                    </PlayerControlButton>,
                     <PlayerControlButton
-                      onClick={() => {
-                        playerRef.current?.play();
-                      }}
+                      key="next-frame"
+                      aria-label="Next frame"
+                      onClick={() => handleStepFrame(1)}
+                    >
+                      <ArrowRightIcon />
+                    </PlayerControlButton>,
+                  ]}
+                  {nextEpisode && (
+                    <PlayerControlButton
+                      aria-label="Next episode"
+                      onClick={() => handleNextEpisode(false)}
                     >
-                      <PlayArrowIcon />
+                      <SkipNextIcon />
                     </PlayerControlButton>
                   )}
-                  <PlayerControlButton>
-                    <SkipNextIcon />
-                  </PlayerControlButton>
                   <VolumeControllers
                     muted={playerState.muted}
-                    handleVolumeToggle={() => {
-                      playerRef.current?.muted(!playerState.muted);
-                      setPlayerState((draft) => {
-                        return { ...draft, muted: !draft.muted };
-                      });
-                    }}
+                    handleVolumeToggle={handleToggleMute}
                     value={playerState.volume}
                     handleVolume={handleVolumeChange}
                   />
@@ -342,7 +1174,7 @@ export function Component() {
                     textAlign="center"
                     sx={{ maxWidth: 300, mx: "auto", color: "white" }}
                   >
-                    {movieDetail?.title || "Description"}
+                    {displayTitle || "Description"}
                   </MaxLineTypography>
                 </Box>
                 {/* end middle time */}
@@ -353,8 +1185,37 @@ export function Component() {
                   alignItems="center"
                   spacing={{ xs: 0.5, sm: 1.5, md: 2 }}
                 >
+                  <PlayerControlButton
+                    aria-label="Subtitles"
+                    aria-haspopup="menu"
+                    aria-expanded={Boolean(subtitlesAnchorEl)}
+                    onClick={(event) =>
+                      setSubtitlesAnchorEl(event.currentTarget)
+                    }
+                  >
+                    {subtitles.activeTrack ? (
+                      <ClosedCaptionIcon />
+                    ) : (
+                      <ClosedCaptionOffIcon />
+                    )}
+                  </PlayerControlButton>
+                  <SubtitlesMenu
+                    anchorEl={subtitlesAnchorEl}
+                    open={Boolean(subtitlesAnchorEl)}
+                    onClose={() => setSubtitlesAnchorEl(null)}
+                    subtitles={subtitles}
+                    onOpenCaptionStyle={() => setCaptionStyleOpen(true)}
+                    onAddFile={handleAddSubtitleFile}
+                  />
+                  <CaptionSettingsDialog
+                    open={captionStyleOpen}
+                    onClose={() => setCaptionStyleOpen(false)}
+                  />
                   <PlayerControlButton
                     ref={settingsMenuRef}
+                    aria-label="Playback settings"
+                    aria-haspopup="menu"
+                    aria-expanded={Boolean(settingsAnchorEl)}
                     onClick={handleSettingsOpen}
                   >
                     <SettingsIcon />
@@ -370,23 +1231,188 @@ export function Component() {
                       },
                     }}
                   >
-                    <MenuItem onClick={handleSubtitleToggle}>
-                      <Stack direction="row" spacing={1} alignItems="center">
-                        {subtitleEnabled ? (
-                          <ClosedCaptionIcon sx={{ color: "white" }} />
-                        ) : (
-                          <SubtitlesIcon sx={{ color: "white" }} />
-                        )}
-                        <Typography>
-                          {subtitleEnabled ? "Disable Subtitles" : "Enable Subtitles"}
+                    {stream && (
+                      <MenuItem disabled>
+                        <Typography variant="caption">
+                          {`Source: ${stream.providerName}`}
                         </Typography>
-                      </Stack>
+                      </MenuItem>
+                    )}
+                    {playbackTracks.qualities.length > 1 && [
+                      <ListSubheader
+                        key="quality"
+                        sx={{ bgcolor: "transparent", color: "grey.400" }}
+                      >
+                        Quality
+                      </ListSubheader>,
+                      <CheckMenuItem
+                        key="quality-auto"
+                        label="Auto"
+                        secondary={
+                          playbackTracks.selectedQuality === null &&
+                          playbackTracks.currentHeight
+                            ? `${playbackTracks.currentHeight}p`
+                            : undefined
+                        }
+                        selected={playbackTracks.selectedQuality === null}
+                        onClick={() => playbackTracks.selectQuality(null)}
+                      />,
+                      ...playbackTracks.qualities.map(({ height, bitrate }) => (
+                        <CheckMenuItem
+                          key={`quality-${height}`}
+                          label={`${height}p`}
+                          secondary={formatBitrate(bitrate)}
+                          selected={playbackTracks.selectedQuality === height}
+                          onClick={() => playbackTracks.selectQuality(height)}
+                        />
+                      )),
+                    ]}
+                    {playbackTracks.qualities.length <= 1 &&
+                      fullMovieSource?.quality &&
+                      fullMovieSource.quality !== "auto" && (
+                        <MenuItem disabled>
+                          <Typography variant="caption">
+                            {`Quality: ${fullMovieSource.quality}`}
+                          </Typography>
+                        </MenuItem>
+                      )}
+                    {playbackTracks.audioTracks.length > 1 && [
+                      <ListSubheader
+                        key="audio"
+                        sx={{ bgcolor: "transparent", color: "grey.400" }}
+                      >
+                        Audio
+                      </ListSubheader>,
+                      ...playbackTracks.audioTracks.map((track) => (
+                        <CheckMenuItem
+                          key={`audio-${track.id}`}
+                          label={
+                            track.label || getLanguageLabel(track.language)
+                          }
+                          selected={track.enabled}
+                          onClick={() =>
+                            playbackTracks.selectAudioTrack(track.id)
+                          }
+                        />
+                      )),
+                    ]}
+                    <ListSubheader
+                      sx={{ bgcolor: "transparent", color: "grey.400" }}
+                    >
+                      Speed
+                    </ListSubheader>
+                    {PLAYBACK_RATES.map((rate) => (
+                      <CheckMenuItem
+                        key={`rate-${rate}`}
+                        label={formatPlaybackRate(rate)}
+                        selected={playbackRate.rate === rate}
+                        onClick={() => playbackRate.setRate(rate)}
+                      />
+                    ))}
+                    <ListSubheader
+                      sx={{ bgcolor: "transparent", color: "grey.400" }}
+                    >
+                      A-B repeat
+                    </ListSubheader>
+                    <MenuItem
+                      onClick={() => {
+                        handleSettingsClose();
+                        handleLoopPoint();
+                      }}
+                    >
+                      <Typography variant="body2">
+                        {!loopRange.loop
+                          ? "Set loop start"
+                          : loopRange.loop.end === null
+                          ? `Set loop end (from ${formatTime(
+                              loopRange.loop.start
+                            )})`
+                          : `Clear loop ${formatTime(
+                              loopRange.loop.start
+                            )} – ${formatTime(loopRange.loop.end)}`}
+                      </Typography>
                     </MenuItem>
+                    {isFullMovie && [
+                      <ListSubheader
+                        key="markers"
+                        sx={{ bgcolor: "transparent", color: "grey.400" }}
+                      >
+                        Skip markers
+                      </ListSubheader>,
+                      <MenuItem key="mark-intro" onClick={handleMarkIntro}>
+                        <Typography variant="body2">
+                          {pendingIntroStart === null
+                            ? "Mark intro start"
+                            : `Mark intro end (started ${formatTime(
+                                pendingIntroStart
+                              )})`}
+                        </Typography>
+                      </MenuItem>,
+                      <MenuItem key="mark-credits" onClick={handleMarkCredits}>
+                        <Typography variant="body2">
+                          Mark credits start
+                        </Typography>
+                      </MenuItem>,
+                      ...segments.map(({ type }) => (
+                        <MenuItem
+                          key={`remove-${type}`}
+                          onClick={() => removeSegmentMarker(type)}
+                        >
+                          <Typography variant="body2">
+                            {`Remove ${SEGMENT_LABELS[
+                              type
+                            ].toLowerCase()} marker`}
+                          </Typography>
+                        </MenuItem>
+                      )),
+                    ]}
+                    {stream?.stremioStreams &&
+                      stream.stremioStreams.length > 1 && [
+                        <ListSubheader
+                          key="sources"
+                          sx={{ bgcolor: "transparent", color: "grey.400" }}
+                        >
+                          Sources
+                        </ListSubheader>,
+                        ...stream.stremioStreams.map((stremioStream) => (
+                          <SourceMenuItem
+                            key={stremioStream.url}
+                            stream={stremioStream}
+                            selected={
+                              stremioStream.url === stream.stremioStream?.url
+                            }
+                            onClick={() => handleSelectSource(stremioStream)}
+                          />
+                        )),
+                      ]}
                   </Menu>
-                  <PlayerControlButton>
+                  <PlayerControlButton
+                    aria-label={
+                      playerState.isPictureInPicture
+                        ? "Exit picture in picture"
+                        : "Picture in picture"
+                    }
+                    aria-pressed={playerState.isPictureInPicture}
+                    disabled={!isPictureInPictureSupported}
+                    onClick={handlePictureInPicture}
+                  >
                     <BrandingWatermarkOutlinedIcon />
                   </PlayerControlButton>
-                  <PlayerControlButton onClick={handleFullscreen}>
+                  <PlayerControlButton
+                    aria-label="Keyboard shortcuts"
+                    aria-haspopup="dialog"
+                    onClick={() => setShowShortcuts(true)}
+                  >
+                    <KeyboardOutlinedIcon />
+                  </PlayerControlButton>
+                  <PlayerControlButton
+                    aria-label={
+                      playerState.isFullscreen
+                        ? "Exit fullscreen"
+                        : "Enter fullscreen"
+                    }
+                    onClick={handleFullscreen}
+                  >
                     {playerState.isFullscreen ? (
                       <FullscreenExitIcon />
                     ) : (
@@ -400,6 +1426,11 @@ export function Component() {
             </Box>
           </Box>
         )}
+        {playbackOverlays}
+        <ShortcutsHelpDialog
+          open={showShortcuts}
+          onClose={() => setShowShortcuts(false)}
+        />
       </Box>
     );
   }
@@ -1,57 +1,105 @@
-import { ReactNode, useEffect, useState, useCallback } from "react";
-import { useLocation } from "react-router-dom";
+import { ReactNode, useEffect, useState, useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
 
-import { INITIAL_DETAIL_STATE } from "src/constant";
+import { DETAIL_QUERY_PARAM, INITIAL_DETAIL_STATE } from "src/constant";
 import createSafeContext from "src/lib/createSafeContext";
+import { useIsAllowedForMaturity } from "src/hooks/useCertification";
 import { useLazyGetAppendedVideosQuery } from "src/store/slices/discover";
 import { MEDIA_TYPE } from "src/types/Common";
-import { MovieDetail } from "src/types/Movie";
+import { MediaDetail } from "src/types/Movie";
+import { formatDetailParam, parseDetailParam } from "src/utils/media";
 
 interface DetailType {
   id?: number;
   mediaType?: MEDIA_TYPE;
 }
 export interface DetailModalConsumerProps {
-  detail: { mediaDetail?: MovieDetail } & DetailType;
+  detail: { mediaDetail?: MediaDetail } & DetailType;
+  // The linked title is above the active profile's maturity ceiling
+  isBlocked: boolean;
   setDetailType: (newDetailType: DetailType) => void;
 }
 
 export const [useDetailModal, Provider] =
   createSafeContext<DetailModalConsumerProps>();
 
+/**
+ * The open title lives in the URL, so opening and closing the modal are
+ * history entries, the back button closes it and links to it can be shared.
+ * Navigating to another page drops the parameter and with it the modal.
+ */
 export default function DetailModalProvider({
   children,
 }: {
   children: ReactNode;
 }) {
-  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const detailParam = searchParams.get(DETAIL_QUERY_PARAM);
+  const detailType = useMemo(
+    () => parseDetailParam(detailParam),
+    [detailParam]
+  );
+  const isAllowed = useIsAllowedForMaturity(
+    detailType?.mediaType,
+    detailType?.id
+  );
   const [detail, setDetail] = useState<
-    { mediaDetail?: MovieDetail } & DetailType
+    { mediaDetail?: MediaDetail } & DetailType
   >(INITIAL_DETAIL_STATE);
 
   const [getAppendedVideos] = useLazyGetAppendedVideosQuery();
 
-  const handleChangeDetail = useCallback(
-    async (newDetailType: { mediaType?: MEDIA_TYPE; id?: number }) => {
-      if (!!newDetailType.id && newDetailType.mediaType) {
-        const response = await getAppendedVideos({
-          mediaType: newDetailType.mediaType,
-          id: newDetailType.id as number,
-        }).unwrap();
-        setDetail({ ...newDetailType, mediaDetail: response });
-      } else {
-        setDetail(INITIAL_DETAIL_STATE);
+  useEffect(() => {
+    if (!detailType) {
+      setDetail(INITIAL_DETAIL_STATE);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await getAppendedVideos(detailType).unwrap();
+        if (!cancelled) {
+          setDetail({ ...detailType, mediaDetail: response });
+        }
+      } catch (error) {
+        console.warn(`Could not load details for ${detailParam}:`, error);
+        if (!cancelled) {
+          setDetail(INITIAL_DETAIL_STATE);
+        }
       }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [detailType]);
+
+  const handleChangeDetail = useCallback(
+    (newDetailType: { mediaType?: MEDIA_TYPE; id?: number }) => {
+      setSearchParams((params) => {
+        const next = new URLSearchParams(params);
+        if (!!newDetailType.id && newDetailType.mediaType) {
+          next.set(
+            DETAIL_QUERY_PARAM,
+            formatDetailParam(newDetailType.mediaType, newDetailType.id)
+          );
+        } else {
+          next.delete(DETAIL_QUERY_PARAM);
+        }
+        return next;
+      });
     },
-    []
+    [setSearchParams]
   );
 
-  useEffect(() => {
-    setDetail(INITIAL_DETAIL_STATE);
-  }, [location.pathname, setDetail]);
-
   return (
-    <Provider value={{ detail, setDetailType: handleChangeDetail }}>
+    <Provider
+      value={{
+        // Nothing shows until the title is known to be allowed
+        detail: isAllowed ? detail : INITIAL_DETAIL_STATE,
+        isBlocked: isAllowed === false,
+        setDetailType: handleChangeDetail,
+      }}
+    >
       {children}
     </Provider>
   );
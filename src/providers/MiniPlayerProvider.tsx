@@ -0,0 +1,53 @@
+import { ReactNode, useCallback, useMemo, useState } from "react";
+
+import createSafeContext from "src/lib/createSafeContext";
+import { MEDIA_TYPE } from "src/types/Common";
+import { Movie } from "src/types/Movie";
+import { VideoSource } from "src/utils/videoSources";
+
+export interface MiniPlayerState {
+  source: VideoSource;
+  title: string;
+  // Where "expand" goes back to, and where playback picks up
+  watchPath: string;
+  position: number;
+  mediaType: MEDIA_TYPE;
+  id: number;
+  season?: number;
+  episode?: number;
+  video: Movie;
+  bingeGroup?: string;
+  providerName: string;
+  // Keeps logging into the history entry the watch page started
+  historyId: string;
+}
+
+export interface MiniPlayerConsumerProps {
+  miniPlayer: MiniPlayerState | null;
+  openMiniPlayer: (state: MiniPlayerState) => void;
+  closeMiniPlayer: () => void;
+}
+
+export const [useMiniPlayer, Provider] =
+  createSafeContext<MiniPlayerConsumerProps>();
+
+/**
+ * Lives above the routes so playback handed over by `WatchPage` survives
+ * navigating around the app.
+ */
+export default function MiniPlayerProvider({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const [miniPlayer, setMiniPlayer] = useState<MiniPlayerState | null>(null);
+
+  const closeMiniPlayer = useCallback(() => setMiniPlayer(null), []);
+
+  const value = useMemo(
+    () => ({ miniPlayer, openMiniPlayer: setMiniPlayer, closeMiniPlayer }),
+    [miniPlayer, closeMiniPlayer]
+  );
+
+  return <Provider value={value}>{children}</Provider>;
+}
@@ -0,0 +1,18 @@
+import { ReactNode, useMemo } from "react";
+import { createTheme, ThemeProvider } from "@mui/material/styles";
+import useActiveProfile from "src/hooks/useActiveProfile";
+import palette, { kidsPalette } from "src/theme/palette";
+
+export default function ProfileThemeProvider({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const isKids = !!useActiveProfile()?.isKids;
+  const theme = useMemo(
+    () => createTheme({ palette: isKids ? kidsPalette : palette }),
+    [isKids]
+  );
+
+  return <ThemeProvider theme={theme}>{children}</ThemeProvider>;
+}
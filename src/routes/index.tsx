@@ -1,30 +1,66 @@
-import { Navigate, createBrowserRouter } from "react-router-dom";
+import { createBrowserRouter, redirect } from "react-router-dom";
 import { MAIN_PATH } from "src/constant";
 
-import MainLayout from "src/layouts/MainLayout";
+import ProfileGate from "src/layouts/ProfileGate";
 
 const router = createBrowserRouter([
   {
     path: "/",
-    element: <MainLayout />,
+    element: <ProfileGate />,
     children: [
       {
         path: MAIN_PATH.root,
-        element: <Navigate to={`/${MAIN_PATH.browse}`} />,
+        // Keep the query so shared detail modal links survive the redirect
+        loader: ({ request }) =>
+          redirect(`/${MAIN_PATH.browse}${new URL(request.url).search}`),
       },
       {
         path: MAIN_PATH.browse,
-        lazy: () => import("src/pages/HomePage"),
+        children: [
+          {
+            index: true,
+            lazy: () => import("src/pages/HomePage"),
+          },
+          {
+            path: ":browseType",
+            lazy: () => import("src/pages/BrowsePage"),
+          },
+        ],
       },
       {
         path: MAIN_PATH.genreExplore,
         children: [
           {
-            path: ":genreId",
+            path: ":mediaType/:genreId",
             lazy: () => import("src/pages/GenreExplore"),
           },
         ],
       },
+      {
+        path: MAIN_PATH.search,
+        lazy: () => import("src/pages/SearchPage"),
+      },
+      {
+        path: MAIN_PATH.myList,
+        lazy: () => import("src/pages/MyListPage"),
+      },
+      {
+        path: MAIN_PATH.history,
+        lazy: () => import("src/pages/HistoryPage"),
+      },
+      {
+        path: MAIN_PATH.settings,
+        children: [
+          {
+            path: "addons",
+            lazy: () => import("src/pages/AddonsPage"),
+          },
+          {
+            path: "markers",
+            lazy: () => import("src/pages/MarkersPage"),
+          },
+        ],
+      },
       {
         path: MAIN_PATH.watch,
         children: [
@@ -32,6 +68,10 @@ const router = createBrowserRouter([
             path: ":mediaType/:id",
             lazy: () => import("src/pages/WatchPage"),
           },
+          {
+            path: ":mediaType/:id/:season/:episode",
+            lazy: () => import("src/pages/WatchPage"),
+          },
         ],
       },
     ],
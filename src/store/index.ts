@@ -1,16 +1,61 @@
-import { configureStore } from "@reduxjs/toolkit";
+import { combineReducers, configureStore } from "@reduxjs/toolkit";
 import { tmdbApi } from "./slices/apiSlice";
 import discoverReducer from "./slices/discover";
+import searchReducer from "./slices/search";
+import myListReducer from "./slices/myList";
+import progressReducer from "./slices/progress";
+import profilesReducer from "./slices/profiles";
+import ratingsReducer from "./slices/ratings";
+import providerHealthReducer from "./slices/providerHealth";
+import stremioAddonsReducer from "./slices/stremioAddons";
+import preferencesReducer from "./slices/preferences";
+import markersReducer from "./slices/markers";
+import historyReducer from "./slices/history";
+import certificationCacheReducer from "./slices/certificationCache";
+import { createStatePersister, loadPersistedState } from "./persist";
+
+const PERSISTED_SLICES = [
+  "profiles",
+  "myList",
+  "progress",
+  "ratings",
+  "providerHealth",
+  "stremioAddons",
+  "preferences",
+  "markers",
+  "history",
+  "certificationCache",
+] as const;
+
+const rootReducer = combineReducers({
+  discover: discoverReducer,
+  search: searchReducer,
+  myList: myListReducer,
+  progress: progressReducer,
+  profiles: profilesReducer,
+  ratings: ratingsReducer,
+  providerHealth: providerHealthReducer,
+  stremioAddons: stremioAddonsReducer,
+  preferences: preferencesReducer,
+  markers: markersReducer,
+  history: historyReducer,
+  certificationCache: certificationCacheReducer,
+  [tmdbApi.reducerPath]: tmdbApi.reducer,
+});
 
 const store = configureStore({
-  reducer: {
-    discover: discoverReducer,
-    [tmdbApi.reducerPath]: tmdbApi.reducer,
-  },
+  reducer: rootReducer,
+  preloadedState:
+    loadPersistedState<ReturnType<typeof rootReducer>>(PERSISTED_SLICES),
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware().concat(tmdbApi.middleware),
 });
 
+const persistState = createStatePersister(PERSISTED_SLICES);
+store.subscribe(() => {
+  persistState(store.getState());
+});
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
 
@@ -0,0 +1,52 @@
+import { STORAGE_KEY } from "src/constant";
+
+/**
+ * Minimal localStorage persistence for the slices that hold user data.
+ * Each slice is stored under its own key so one corrupted entry doesn't
+ * take the rest of the state down with it.
+ */
+function storageKey(sliceName: string) {
+  return `${STORAGE_KEY}:${sliceName}`;
+}
+
+export function loadPersistedState<S extends object>(
+  sliceNames: readonly (keyof S & string)[]
+) {
+  const state: Partial<S> = {};
+  sliceNames.forEach((sliceName) => {
+    try {
+      const raw = window.localStorage.getItem(storageKey(sliceName));
+      if (raw) {
+        // Written by createStatePersister from the same slice, so the shape matches
+        state[sliceName] = JSON.parse(raw) as S[typeof sliceName];
+      }
+    } catch (error) {
+      console.warn(`Could not restore persisted "${sliceName}" state:`, error);
+    }
+  });
+  return state;
+}
+
+export function createStatePersister<K extends string>(
+  sliceNames: readonly K[]
+) {
+  const lastSaved: Partial<Record<K, unknown>> = {};
+
+  return (state: Record<K, unknown>) => {
+    sliceNames.forEach((sliceName) => {
+      // Slices are immutable, so a reference check is enough to skip unchanged ones
+      if (lastSaved[sliceName] === state[sliceName]) {
+        return;
+      }
+      lastSaved[sliceName] = state[sliceName];
+      try {
+        window.localStorage.setItem(
+          storageKey(sliceName),
+          JSON.stringify(state[sliceName])
+        );
+      } catch (error) {
+        console.warn(`Could not persist "${sliceName}" state:`, error);
+      }
+    });
+  };
+}
@@ -0,0 +1,36 @@
+import { CERTIFICATION_COUNTRY, TMDB_V3_API_KEY } from "src/constant";
+import { MEDIA_TYPE } from "src/types/Common";
+import {
+  Certification,
+  MovieReleaseDates,
+  parseCertification,
+  TvContentRatings,
+} from "src/utils/certification";
+import { tmdbApi } from "./apiSlice";
+
+const extendedApi = tmdbApi.injectEndpoints({
+  endpoints: (build) => ({
+    getCertification: build.query<
+      Certification,
+      { mediaType: MEDIA_TYPE; id: number }
+    >({
+      query: ({ mediaType, id }) => ({
+        url:
+          mediaType === MEDIA_TYPE.Tv
+            ? `/tv/${id}/content_ratings`
+            : `/movie/${id}/release_dates`,
+        params: { api_key: TMDB_V3_API_KEY },
+      }),
+      transformResponse: (
+        response: MovieReleaseDates | TvContentRatings,
+        _,
+        { mediaType }
+      ) => parseCertification(response, mediaType, CERTIFICATION_COUNTRY),
+    }),
+  }),
+});
+
+export const {
+  useGetCertificationQuery,
+  endpoints: certificationSliceEndpoints,
+} = extendedApi;
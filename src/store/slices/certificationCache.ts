@@ -0,0 +1,29 @@
+import { createSlice } from "@reduxjs/toolkit";
+import { CERTIFICATION_COUNTRY } from "src/constant";
+import { MEDIA_TYPE } from "src/types/Common";
+import { certificationSliceEndpoints } from "./certification";
+
+// Minimum ages of titles already looked up, keyed by
+// `${country}/${mediaType}/${id}`. Ratings hardly ever change, so keeping
+// them across sessions spares restricted profiles a request per card.
+const initialState: Record<string, number | null> = {};
+
+export const getCertificationKey = (mediaType: MEDIA_TYPE, id: number) =>
+  `${CERTIFICATION_COUNTRY}/${mediaType}/${id}`;
+
+const certificationCacheSlice = createSlice({
+  name: "certificationCache",
+  initialState,
+  reducers: {},
+  extraReducers(builder) {
+    builder.addMatcher(
+      certificationSliceEndpoints.getCertification.matchFulfilled,
+      (state, action) => {
+        const { mediaType, id } = action.meta.arg.originalArgs;
+        state[getCertificationKey(mediaType, id)] = action.payload.age;
+      }
+    );
+  },
+});
+
+export default certificationCacheSlice.reducer;
@@ -1,7 +1,9 @@
 import { TMDB_V3_API_KEY } from "src/constant";
 import { tmdbApi } from "./apiSlice";
 import { MEDIA_TYPE, PaginatedMovieResult } from "src/types/Common";
-import { MovieDetail } from "src/types/Movie";
+import { MediaDetail, MovieDetail } from "src/types/Movie";
+import { TvDetail } from "src/types/Tv";
+import { normalizeResults } from "src/utils/media";
 import { createSlice, isAnyOf } from "@reduxjs/toolkit";
 
 const initialState: Record<string, Record<string, PaginatedMovieResult>> = {};
@@ -76,6 +78,7 @@ const extendedApi = tmdbApi.injectEndpoints({
         { mediaType, genreId }
       ) => ({
         ...response,
+        results: normalizeResults(response.results, mediaType),
         mediaType,
         itemKey: genreId,
       }),
@@ -98,19 +101,31 @@ const extendedApi = tmdbApi.injectEndpoints({
       ) => {
         return {
           ...response,
+          results: normalizeResults(response.results, mediaType),
           mediaType,
           itemKey: apiString,
         };
       },
     }),
     getAppendedVideos: build.query<
-      MovieDetail,
+      MediaDetail,
       { mediaType: MEDIA_TYPE; id: number }
     >({
       query: ({ mediaType, id }) => ({
         url: `/${mediaType}/${id}`,
         params: { api_key: TMDB_V3_API_KEY, append_to_response: "videos" },
       }),
+      // TV details come back with `name`/`first_air_date`, align them with movies
+      transformResponse: (
+        response: MovieDetail | Omit<TvDetail, "title" | "release_date">
+      ): MediaDetail =>
+        "first_air_date" in response
+          ? {
+              ...response,
+              title: response.name,
+              release_date: response.first_air_date ?? "",
+            }
+          : response,
     }),
     getSimilarVideos: build.query<
       PaginatedMovieResult,
@@ -120,6 +135,31 @@ const extendedApi = tmdbApi.injectEndpoints({
         url: `/${mediaType}/${id}/similar`,
         params: { api_key: TMDB_V3_API_KEY },
       }),
+      transformResponse: (
+        response: PaginatedMovieResult,
+        _,
+        { mediaType }
+      ) => ({
+        ...response,
+        results: normalizeResults(response.results, mediaType),
+      }),
+    }),
+    getRecommendations: build.query<
+      PaginatedMovieResult,
+      { mediaType: MEDIA_TYPE; id: number }
+    >({
+      query: ({ mediaType, id }) => ({
+        url: `/${mediaType}/${id}/recommendations`,
+        params: { api_key: TMDB_V3_API_KEY },
+      }),
+      transformResponse: (
+        response: PaginatedMovieResult,
+        _,
+        { mediaType }
+      ) => ({
+        ...response,
+        results: normalizeResults(response.results, mediaType),
+      }),
     }),
   }),
 });
@@ -133,4 +173,5 @@ export const {
   useLazyGetAppendedVideosQuery,
   useGetSimilarVideosQuery,
   useLazyGetSimilarVideosQuery,
+  useGetRecommendationsQuery,
 } = extendedApi;
@@ -0,0 +1,60 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { deleteProfile } from "./profiles";
+import { HISTORY_LIMIT } from "src/constant";
+import { HistoryEntry } from "src/types/History";
+
+const initialState: Record<string, HistoryEntry[]> = {};
+
+const historySlice = createSlice({
+  name: "history",
+  initialState,
+  reducers: {
+    logHistory: (
+      state,
+      action: PayloadAction<{
+        profileId: string;
+        entry: Omit<HistoryEntry, "startedAt">;
+      }>
+    ) => {
+      const { profileId, entry } = action.payload;
+      const entries = state[profileId] ?? [];
+      const current = entries.find((item) => item.id === entry.id);
+      if (current) {
+        Object.assign(current, {
+          ...entry,
+          percentWatched: Math.max(
+            current.percentWatched,
+            entry.percentWatched
+          ),
+        });
+      } else {
+        // Newest first, the oldest sessions go once the log is full
+        state[profileId] = [
+          { ...entry, startedAt: entry.updatedAt },
+          ...entries,
+        ].slice(0, HISTORY_LIMIT);
+      }
+    },
+    removeHistoryEntry: (
+      state,
+      action: PayloadAction<{ profileId: string; id: string }>
+    ) => {
+      const { profileId, id } = action.payload;
+      if (state[profileId]) {
+        state[profileId] = state[profileId].filter((item) => item.id !== id);
+      }
+    },
+    clearHistory: (state, action: PayloadAction<string>) => {
+      delete state[action.payload];
+    },
+  },
+  extraReducers(builder) {
+    builder.addCase(deleteProfile, (state, action) => {
+      delete state[action.payload];
+    });
+  },
+});
+
+export const { logHistory, removeHistoryEntry, clearHistory } =
+  historySlice.actions;
+export default historySlice.reducer;
@@ -0,0 +1,54 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { MarkerEntry, Segment, SegmentType } from "src/types/Marker";
+
+const initialState: Record<string, MarkerEntry> = {};
+
+const markersSlice = createSlice({
+  name: "markers",
+  initialState,
+  reducers: {
+    // A title has at most one segment of each type, marking it again replaces it
+    setSegment: (
+      state,
+      action: PayloadAction<{ key: string; title?: string; segment: Segment }>
+    ) => {
+      const { key, title, segment } = action.payload;
+      const entry = state[key];
+      state[key] = {
+        title: title ?? entry?.title,
+        segments: [
+          ...(entry?.segments ?? []).filter((s) => s.type !== segment.type),
+          segment,
+        ].sort((a, b) => a.start - b.start),
+        updatedAt: Date.now(),
+      };
+    },
+    removeSegment: (
+      state,
+      action: PayloadAction<{ key: string; type: SegmentType }>
+    ) => {
+      const { key, type } = action.payload;
+      const entry = state[key];
+      if (!entry) {
+        return;
+      }
+      entry.segments = entry.segments.filter((s) => s.type !== type);
+      entry.updatedAt = Date.now();
+      if (entry.segments.length === 0) {
+        delete state[key];
+      }
+    },
+    removeMarkers: (state, action: PayloadAction<string>) => {
+      delete state[action.payload];
+    },
+    // Imported entries win over local ones for the same title
+    importMarkers: (
+      state,
+      action: PayloadAction<Record<string, MarkerEntry>>
+    ) => ({ ...state, ...action.payload }),
+  },
+});
+
+export const { setSegment, removeSegment, removeMarkers, importMarkers } =
+  markersSlice.actions;
+export default markersSlice.reducer;
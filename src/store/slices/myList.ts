@@ -0,0 +1,55 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { deleteProfile } from "./profiles";
+import { Movie } from "src/types/Movie";
+import { MyListItem } from "src/types/MyList";
+import { getMediaType } from "src/utils/media";
+
+const initialState: Record<string, MyListItem[]> = {};
+
+const isSameVideo = (item: MyListItem, video: Movie) =>
+  item.video.id === video.id &&
+  getMediaType(item.video) === getMediaType(video);
+
+const myListSlice = createSlice({
+  name: "myList",
+  initialState,
+  reducers: {
+    toggleMyListItem: (
+      state,
+      action: PayloadAction<{ profileId: string; video: Movie }>
+    ) => {
+      const { profileId, video } = action.payload;
+      const items = state[profileId] ?? [];
+      if (items.some((item) => isSameVideo(item, video))) {
+        state[profileId] = items.filter((item) => !isSameVideo(item, video));
+      } else {
+        state[profileId] = [
+          {
+            video: { ...video, media_type: getMediaType(video) },
+            addedAt: Date.now(),
+          },
+          ...items,
+        ];
+      }
+    },
+    removeMyListItem: (
+      state,
+      action: PayloadAction<{ profileId: string; video: Movie }>
+    ) => {
+      const { profileId, video } = action.payload;
+      if (state[profileId]) {
+        state[profileId] = state[profileId].filter(
+          (item) => !isSameVideo(item, video)
+        );
+      }
+    },
+  },
+  extraReducers(builder) {
+    builder.addCase(deleteProfile, (state, action) => {
+      delete state[action.payload];
+    });
+  },
+});
+
+export const { toggleMyListItem, removeMyListItem } = myListSlice.actions;
+export default myListSlice.reducer;
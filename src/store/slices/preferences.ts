@@ -0,0 +1,47 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { deleteProfile } from "./profiles";
+import { PlayerPreferences } from "src/types/Preferences";
+
+export const DEFAULT_PLAYER_PREFERENCES: PlayerPreferences = {
+  subtitleLanguage: null,
+  captionStyle: {
+    size: "medium",
+    color: "#FFFFFF",
+    background: "none",
+    edge: "shadow",
+  },
+  videoQuality: null,
+  audioLanguage: null,
+  playbackRate: 1,
+};
+
+const initialState: Record<string, PlayerPreferences> = {};
+
+const preferencesSlice = createSlice({
+  name: "preferences",
+  initialState,
+  reducers: {
+    updatePreferences: (
+      state,
+      action: PayloadAction<{
+        profileId: string;
+        changes: Partial<PlayerPreferences>;
+      }>
+    ) => {
+      const { profileId, changes } = action.payload;
+      state[profileId] = {
+        ...DEFAULT_PLAYER_PREFERENCES,
+        ...state[profileId],
+        ...changes,
+      };
+    },
+  },
+  extraReducers(builder) {
+    builder.addCase(deleteProfile, (state, action) => {
+      delete state[action.payload];
+    });
+  },
+});
+
+export const { updatePreferences } = preferencesSlice.actions;
+export default preferencesSlice.reducer;
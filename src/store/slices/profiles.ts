@@ -0,0 +1,93 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import {
+  DEFAULT_AVATAR,
+  DEFAULT_PROFILE_ID,
+  KIDS_MAX_MATURITY_AGE,
+} from "src/constant";
+import { Profile } from "src/types/Profile";
+import { generateId } from "src/utils/common";
+import type { RootState } from "src/store";
+
+type ProfilesState = {
+  profiles: Profile[];
+  activeProfileId: string | null;
+};
+
+// The first profile reuses the id data was stored under before profiles existed
+const initialState: ProfilesState = {
+  profiles: [
+    {
+      id: DEFAULT_PROFILE_ID,
+      name: "Me",
+      avatar: DEFAULT_AVATAR,
+      isKids: false,
+      createdAt: 0,
+    },
+  ],
+  activeProfileId: null,
+};
+
+const profilesSlice = createSlice({
+  name: "profiles",
+  initialState,
+  reducers: {
+    addProfile: {
+      reducer: (state, action: PayloadAction<Profile>) => {
+        state.profiles.push(action.payload);
+      },
+      prepare: (profile: Omit<Profile, "id" | "createdAt">) => ({
+        payload: { ...profile, id: generateId(), createdAt: Date.now() },
+      }),
+    },
+    updateProfile: (
+      state,
+      action: PayloadAction<{
+        id: string;
+        changes: Partial<Omit<Profile, "id" | "createdAt">>;
+      }>
+    ) => {
+      const profile = state.profiles.find((p) => p.id === action.payload.id);
+      if (profile) {
+        Object.assign(profile, action.payload.changes);
+      }
+    },
+    deleteProfile: (state, action: PayloadAction<string>) => {
+      // There must always be somebody watching
+      if (state.profiles.length <= 1) {
+        return;
+      }
+      state.profiles = state.profiles.filter((p) => p.id !== action.payload);
+      if (state.activeProfileId === action.payload) {
+        state.activeProfileId = null;
+      }
+    },
+    setActiveProfile: (state, action: PayloadAction<string | null>) => {
+      state.activeProfileId = action.payload;
+    },
+  },
+});
+
+export const selectActiveProfile = (state: RootState) =>
+  state.profiles.profiles.find((p) => p.id === state.profiles.activeProfileId);
+
+// Per-profile data falls back to the default namespace until someone is picked
+export const selectActiveProfileId = (state: RootState) =>
+  state.profiles.activeProfileId ?? DEFAULT_PROFILE_ID;
+
+// Profiles saved before maturity levels existed only carry the kids flag
+export const getMaturityCeiling = (profile?: Profile) => {
+  if (!profile) {
+    return null;
+  }
+  if (profile.maxMaturityAge !== undefined) {
+    return profile.maxMaturityAge;
+  }
+  return profile.isKids ? KIDS_MAX_MATURITY_AGE : null;
+};
+
+export const selectMaturityCeiling = (state: RootState) =>
+  getMaturityCeiling(selectActiveProfile(state));
+
+export const { addProfile, updateProfile, deleteProfile, setActiveProfile } =
+  profilesSlice.actions;
+export default profilesSlice.reducer;
@@ -0,0 +1,45 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { deleteProfile } from "./profiles";
+import { PlaybackProgress } from "src/types/Playback";
+import { isWatched } from "src/utils/playback";
+
+const initialState: Record<string, Record<string, PlaybackProgress>> = {};
+
+const progressSlice = createSlice({
+  name: "progress",
+  initialState,
+  reducers: {
+    saveProgress: (
+      state,
+      action: PayloadAction<{ profileId: string; progress: PlaybackProgress }>
+    ) => {
+      const { profileId, progress } = action.payload;
+      if (!state[profileId]) {
+        state[profileId] = {};
+      }
+      // Finished titles drop out of "Continue Watching"
+      if (isWatched(progress.position, progress.duration)) {
+        delete state[profileId][progress.key];
+      } else {
+        state[profileId][progress.key] = progress;
+      }
+    },
+    removeProgress: (
+      state,
+      action: PayloadAction<{ profileId: string; key: string }>
+    ) => {
+      const { profileId, key } = action.payload;
+      if (state[profileId]) {
+        delete state[profileId][key];
+      }
+    },
+  },
+  extraReducers(builder) {
+    builder.addCase(deleteProfile, (state, action) => {
+      delete state[action.payload];
+    });
+  },
+});
+
+export const { saveProgress, removeProgress } = progressSlice.actions;
+export default progressSlice.reducer;
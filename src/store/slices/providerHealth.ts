@@ -0,0 +1,45 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { ProviderHealth } from "src/types/Stream";
+
+const initialState: Record<string, ProviderHealth> = {};
+
+// Weight of the newest sample in the rolling latency average
+const LATENCY_SMOOTHING = 0.3;
+
+const providerHealthSlice = createSlice({
+  name: "providerHealth",
+  initialState,
+  reducers: {
+    recordProviderSuccess: (
+      state,
+      action: PayloadAction<{ providerId: string; latency: number }>
+    ) => {
+      const { providerId, latency } = action.payload;
+      const health = state[providerId];
+      state[providerId] = {
+        failures: 0,
+        lastFailureAt: health?.lastFailureAt,
+        lastSuccessAt: Date.now(),
+        latency:
+          health?.latency === undefined
+            ? latency
+            : Math.round(
+                health.latency * (1 - LATENCY_SMOOTHING) +
+                  latency * LATENCY_SMOOTHING
+              ),
+      };
+    },
+    recordProviderFailure: (
+      state,
+      action: PayloadAction<{ providerId: string }>
+    ) => {
+      const health = (state[action.payload.providerId] ??= { failures: 0 });
+      health.failures += 1;
+      health.lastFailureAt = Date.now();
+    },
+  },
+});
+
+export const { recordProviderSuccess, recordProviderFailure } =
+  providerHealthSlice.actions;
+export default providerHealthSlice.reducer;
@@ -0,0 +1,48 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { deleteProfile } from "./profiles";
+import { Movie } from "src/types/Movie";
+import { RATING, RatedItem } from "src/types/Rating";
+import { getMediaType } from "src/utils/media";
+
+// Ratings per profile, keyed by `${mediaType}/${id}`
+const initialState: Record<string, Record<string, RatedItem>> = {};
+
+export const getRatingKey = (video: Movie) =>
+  `${getMediaType(video)}/${video.id}`;
+
+const ratingsSlice = createSlice({
+  name: "ratings",
+  initialState,
+  reducers: {
+    // Passing `null` clears the rating
+    setRating: (
+      state,
+      action: PayloadAction<{
+        profileId: string;
+        video: Movie;
+        rating: RATING | null;
+      }>
+    ) => {
+      const { profileId, video, rating } = action.payload;
+      const key = getRatingKey(video);
+      const ratings = (state[profileId] ??= {});
+      if (rating === null) {
+        delete ratings[key];
+      } else {
+        ratings[key] = {
+          video: { ...video, media_type: getMediaType(video) },
+          rating,
+          ratedAt: Date.now(),
+        };
+      }
+    },
+  },
+  extraReducers(builder) {
+    builder.addCase(deleteProfile, (state, action) => {
+      delete state[action.payload];
+    });
+  },
+});
+
+export const { setRating } = ratingsSlice.actions;
+export default ratingsSlice.reducer;
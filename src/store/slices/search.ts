@@ -0,0 +1,119 @@
+import { TMDB_V3_API_KEY } from "src/constant";
+import { tmdbApi } from "./apiSlice";
+import { MEDIA_TYPE } from "src/types/Common";
+import { Movie } from "src/types/Movie";
+import {
+  PaginatedMultiSearchResult,
+  Person,
+  SearchResult,
+} from "src/types/Search";
+import { tvShowToMovie } from "src/utils/media";
+import { createSlice } from "@reduxjs/toolkit";
+
+interface SearchState extends SearchResult {
+  // The query last sent, older responses that arrive after it are dropped
+  latestQuery: string;
+}
+
+const initialState: SearchState = {
+  latestQuery: "",
+  query: "",
+  page: 0,
+  movies: [],
+  tvShows: [],
+  people: [],
+  total_pages: 0,
+  total_results: 0,
+};
+
+const extendedApi = tmdbApi.injectEndpoints({
+  endpoints: (build) => ({
+    searchMulti: build.query<SearchResult, { query: string; page: number }>({
+      query: ({ query, page }) => ({
+        url: "/search/multi",
+        params: {
+          api_key: TMDB_V3_API_KEY,
+          query,
+          page,
+          include_adult: false,
+        },
+      }),
+      transformResponse: (
+        response: PaginatedMultiSearchResult,
+        _,
+        { query }
+      ) => {
+        const movies: Movie[] = [];
+        const tvShows: Movie[] = [];
+        const people: Person[] = [];
+        response.results.forEach((item) => {
+          if (item.media_type === MEDIA_TYPE.Movie) {
+            movies.push(item);
+          } else if (item.media_type === MEDIA_TYPE.Tv) {
+            tvShows.push(tvShowToMovie(item));
+          } else if (item.media_type === "person") {
+            people.push(item);
+          }
+        });
+        return {
+          query,
+          page: response.page,
+          total_pages: response.total_pages,
+          total_results: response.total_results,
+          movies,
+          tvShows,
+          people,
+        };
+      },
+    }),
+  }),
+});
+
+const searchSlice = createSlice({
+  name: "search",
+  initialState,
+  reducers: {
+    resetSearch: () => initialState,
+  },
+  extraReducers(builder) {
+    builder.addMatcher(
+      extendedApi.endpoints.searchMulti.matchPending,
+      (state, action) => {
+        state.latestQuery = action.meta.arg.originalArgs.query;
+      }
+    );
+    builder.addMatcher(
+      extendedApi.endpoints.searchMulti.matchFulfilled,
+      (state, action) => {
+        const { query, page, total_pages, total_results } = action.payload;
+        if (action.meta.arg.originalArgs.query !== state.latestQuery) {
+          return;
+        }
+        if (query !== state.query || page === 1) {
+          return { ...action.payload, latestQuery: state.latestQuery };
+        }
+        if (page <= state.page) {
+          return;
+        }
+        const appendUnique = <T extends { id: number }>(
+          current: T[],
+          incoming: T[]
+        ) => {
+          const ids = new Set(current.map((item) => item.id));
+          current.push(...incoming.filter((item) => !ids.has(item.id)));
+        };
+        appendUnique(state.movies, action.payload.movies);
+        appendUnique(state.tvShows, action.payload.tvShows);
+        appendUnique(state.people, action.payload.people);
+        state.page = page;
+        state.total_pages = total_pages;
+        state.total_results = total_results;
+      }
+    );
+  },
+});
+
+export const { resetSearch } = searchSlice.actions;
+export default searchSlice.reducer;
+
+export const { useSearchMultiQuery, useLazySearchMultiQuery } = extendedApi;
@@ -0,0 +1,72 @@
+import { createSelector, createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { StremioManifest, STREMIO_ADDONS } from "src/utils/stremio";
+import type { RootState } from "src/store";
+
+export type InstalledAddon = {
+  manifestUrl: string;
+  enabled: boolean;
+  // Missing for the built-in addons until their manifest has been fetched
+  manifest?: StremioManifest;
+};
+
+// Seeded with the addons configured at build time
+const initialState: InstalledAddon[] = STREMIO_ADDONS.map((manifestUrl) => ({
+  manifestUrl,
+  enabled: true,
+}));
+
+const stremioAddonsSlice = createSlice({
+  name: "stremioAddons",
+  initialState,
+  reducers: {
+    installAddon: (
+      state,
+      action: PayloadAction<{ manifestUrl: string; manifest: StremioManifest }>
+    ) => {
+      const { manifestUrl, manifest } = action.payload;
+      const existing = state.find((a) => a.manifestUrl === manifestUrl);
+      if (existing) {
+        existing.manifest = manifest;
+      } else {
+        state.push({ manifestUrl, manifest, enabled: true });
+      }
+    },
+    uninstallAddon: (state, action: PayloadAction<string>) =>
+      state.filter((a) => a.manifestUrl !== action.payload),
+    setAddonEnabled: (
+      state,
+      action: PayloadAction<{ manifestUrl: string; enabled: boolean }>
+    ) => {
+      const addon = state.find(
+        (a) => a.manifestUrl === action.payload.manifestUrl
+      );
+      if (addon) {
+        addon.enabled = action.payload.enabled;
+      }
+    },
+    // Addons are queried in parallel, but their streams are listed in this order
+    moveAddon: (
+      state,
+      action: PayloadAction<{ manifestUrl: string; offset: -1 | 1 }>
+    ) => {
+      const from = state.findIndex(
+        (a) => a.manifestUrl === action.payload.manifestUrl
+      );
+      const to = from + action.payload.offset;
+      if (from < 0 || to < 0 || to >= state.length) {
+        return;
+      }
+      const [addon] = state.splice(from, 1);
+      state.splice(to, 0, addon);
+    },
+  },
+});
+
+export const selectEnabledAddonUrls = createSelector(
+  (state: RootState) => state.stremioAddons,
+  (addons) => addons.filter((a) => a.enabled).map((a) => a.manifestUrl)
+);
+
+export const { installAddon, uninstallAddon, setAddonEnabled, moveAddon } =
+  stremioAddonsSlice.actions;
+export default stremioAddonsSlice.reducer;
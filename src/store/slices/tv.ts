@@ -0,0 +1,23 @@
+import { TMDB_V3_API_KEY } from "src/constant";
+import { SeasonDetail } from "src/types/Tv";
+import { tmdbApi } from "./apiSlice";
+
+const extendedApi = tmdbApi.injectEndpoints({
+  endpoints: (build) => ({
+    getTvSeason: build.query<
+      SeasonDetail,
+      { id: number; seasonNumber: number }
+    >({
+      query: ({ id, seasonNumber }) => ({
+        url: `/tv/${id}/season/${seasonNumber}`,
+        params: { api_key: TMDB_V3_API_KEY },
+      }),
+    }),
+  }),
+});
+
+export const {
+  useGetTvSeasonQuery,
+  useLazyGetTvSeasonQuery,
+  endpoints: tvSliceEndpoints,
+} = extendedApi;
@@ -35,4 +35,30 @@ const palette = {
   mode: "dark" as PaletteMode,
 };
 
+// Kids profiles get a brighter, friendlier take on the same dark layout
+export const kidsPalette = {
+  ...COMMON,
+  primary: {
+    light: "#4FC3F7",
+    main: "#1B2A4A",
+    dark: "#101A30",
+    contrastText: "#fff",
+  },
+  secondary: {
+    light: "#FFE082",
+    main: "#FFC107",
+    dark: "#FFA000",
+    contrastText: "#1B2A4A",
+  },
+  success: {
+    light: "#A5D6A7",
+    main: "#66BB6A",
+    dark: "#388E3C",
+    contrastText: "#fff",
+  },
+  text: { primary: "#fff", secondary: GREY[300], disabled: GREY[500] },
+  background: { default: "#1B2A4A", paper: "#22335A" },
+  mode: "dark" as PaletteMode,
+};
+
 export default palette;
@@ -0,0 +1,19 @@
+import { MEDIA_TYPE } from "./Common";
+import { Movie } from "./Movie";
+
+/**
+ * One viewing session of a title or episode, from opening the player until
+ * leaving it.
+ */
+export type HistoryEntry = {
+  id: string;
+  mediaType: MEDIA_TYPE;
+  season?: number;
+  episode?: number;
+  startedAt: number;
+  updatedAt: number;
+  // Furthest point reached in this session, 0–100
+  percentWatched: number;
+  providerName: string;
+  video: Movie;
+};
@@ -0,0 +1,23 @@
+export type SegmentType = "intro" | "credits";
+
+export type Segment = {
+  type: SegmentType;
+  start: number;
+  end: number;
+};
+
+/**
+ * Segments marked for one title or episode, keyed like playback progress
+ * (`tv/1399/1/3`). A title-level key applies to episodes without their own.
+ */
+export type MarkerEntry = {
+  title?: string;
+  segments: Segment[];
+  updatedAt: number;
+};
+
+export type MarkerFile = {
+  format: "udongflix-markers";
+  version: 1;
+  markers: Record<string, MarkerEntry>;
+};
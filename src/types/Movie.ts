@@ -1,5 +1,6 @@
-import { Company, Country, Language } from './Common';
+import { Company, Country, Language, MEDIA_TYPE } from './Common';
 import { Genre } from './Genre';
+import { TvDetail } from './Tv';
 
 export type Appended_Video = {
   id: string;
@@ -58,4 +59,7 @@ export type Movie = {
   vote_count: number;
   video: boolean;
   vote_average: number;
+  media_type?: MEDIA_TYPE;
 };
+
+export type MediaDetail = MovieDetail | TvDetail;
@@ -0,0 +1,12 @@
+import { Movie } from "./Movie";
+
+export type MyListItem = {
+  video: Movie;
+  addedAt: number;
+};
+
+export enum MY_LIST_SORT {
+  DateAdded = "date_added",
+  Title = "title",
+  Rating = "rating",
+}
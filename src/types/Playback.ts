@@ -0,0 +1,72 @@
+import { MEDIA_TYPE } from "./Common";
+import { Movie } from "./Movie";
+
+export type PlaybackProgress = {
+  key: string;
+  mediaType: MEDIA_TYPE;
+  id: number;
+  season?: number;
+  episode?: number;
+  position: number;
+  duration: number;
+  updatedAt: number;
+  video: Movie;
+};
+
+/**
+ * Router state carried between episodes so binge mode survives navigation.
+ */
+export type WatchLocationState = {
+  autoPlayCount?: number;
+  bingeGroup?: string;
+  // Seconds to start at without asking, e.g. when expanding the mini-player
+  startAt?: number;
+};
+
+/**
+ * A point (chapter start) or range (e.g. an intro) drawn on the seekbar.
+ */
+export type SeekbarMarker = {
+  start: number;
+  end?: number;
+  label: string;
+};
+
+/**
+ * One cue of a WebVTT thumbnail track, `xywh` locates it inside a sprite.
+ */
+export type ThumbnailCue = {
+  start: number;
+  end: number;
+  url: string;
+  xywh?: [number, number, number, number];
+};
+
+export type PlaybackEvent =
+  | "play"
+  | "pause"
+  | "timeupdate"
+  | "durationchange"
+  | "ended";
+
+/**
+ * What the watch page needs from a player, implemented for Video.js and for
+ * iframe embeds. Embeds only report playback, check `capabilities` before
+ * offering anything that has to control it.
+ */
+export interface PlaybackController {
+  kind: "videojs" | "iframe";
+  capabilities: {
+    // Play, pause and seeking from our own UI
+    control: boolean;
+  };
+  paused: () => boolean;
+  currentTime: () => number;
+  duration: () => number;
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  on: (event: PlaybackEvent, listener: () => void) => void;
+  off: (event: PlaybackEvent, listener: () => void) => void;
+  dispose: () => void;
+}
@@ -0,0 +1,19 @@
+export type CaptionStyle = {
+  size: "small" | "medium" | "large" | "xlarge";
+  color: string;
+  background: "none" | "semi" | "opaque";
+  edge: "none" | "shadow" | "outline" | "raised" | "depressed";
+};
+
+/**
+ * Player settings remembered per profile.
+ */
+export type PlayerPreferences = {
+  // ISO 639 code of the last subtitle language picked, `null` for off
+  subtitleLanguage: string | null;
+  captionStyle: CaptionStyle;
+  // Rendition height for adaptive streams, `null` lets the player decide
+  videoQuality: number | null;
+  audioLanguage: string | null;
+  playbackRate: number;
+};
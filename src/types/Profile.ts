@@ -0,0 +1,10 @@
+export type Profile = {
+  id: string;
+  name: string;
+  // Either an image path or a background color for an initial-letter avatar
+  avatar: string;
+  isKids: boolean;
+  // Oldest certification age the profile may see, `null` for no limit
+  maxMaturityAge?: number | null;
+  createdAt: number;
+};
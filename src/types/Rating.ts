@@ -0,0 +1,13 @@
+import { Movie } from "./Movie";
+
+export enum RATING {
+  NotForMe = "not_for_me",
+  Like = "like",
+  Love = "love",
+}
+
+export type RatedItem = {
+  video: Movie;
+  rating: RATING;
+  ratedAt: number;
+};
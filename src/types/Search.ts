@@ -0,0 +1,30 @@
+import { MEDIA_TYPE, PaginatedResult } from "./Common";
+import { Movie } from "./Movie";
+import { TvShow } from "./Tv";
+
+export type Person = {
+  adult: boolean;
+  gender: number;
+  id: number;
+  known_for: Movie[];
+  known_for_department: string;
+  name: string;
+  popularity: number;
+  profile_path: string | null;
+};
+
+export type MultiSearchItem =
+  | (Movie & { media_type: MEDIA_TYPE.Movie })
+  | (TvShow & { media_type: MEDIA_TYPE.Tv })
+  | (Person & { media_type: "person" });
+
+export type PaginatedMultiSearchResult = PaginatedResult & {
+  results: MultiSearchItem[];
+};
+
+export type SearchResult = PaginatedResult & {
+  query: string;
+  movies: Movie[];
+  tvShows: Movie[];
+  people: Person[];
+};
@@ -0,0 +1,32 @@
+import { StremioStream } from "src/utils/stremio";
+import { VideoSource } from "src/utils/videoSources";
+
+export type ProviderHealth = {
+  // Failures since the last success
+  failures: number;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  // Rolling average of how long the provider took to answer
+  latency?: number;
+};
+
+export type StreamRequest = {
+  tmdbId: number;
+  mediaType: "movie" | "tv";
+  season?: number;
+  episode?: number;
+  imdbId?: string;
+  trailerKey?: string;
+  bingeGroup?: string;
+};
+
+export type ResolvedStream = {
+  source: VideoSource;
+  // Unique per provider instance, e.g. "vidsrc:vidsrc-embed.ru"
+  providerId: string;
+  providerName: string;
+  latency: number;
+  stremioStream?: StremioStream;
+  // Every stream the Stremio addons offered, for picking another one
+  stremioStreams?: StremioStream[];
+};
@@ -0,0 +1,88 @@
+import { Company, Country, Language } from "./Common";
+import { Genre } from "./Genre";
+import { Appended_Video } from "./Movie";
+
+export type TvShow = {
+  poster_path: string | null;
+  adult: boolean;
+  overview: string;
+  first_air_date: string;
+  genre_ids: number[];
+  id: number;
+  origin_country: string[];
+  original_name: string;
+  original_language: string;
+  name: string;
+  backdrop_path: string | null;
+  popularity: number;
+  vote_count: number;
+  vote_average: number;
+};
+
+export type Episode = {
+  air_date: string | null;
+  episode_number: number;
+  id: number;
+  name: string;
+  overview: string;
+  production_code: string;
+  runtime: number | null;
+  season_number: number;
+  show_id: number;
+  still_path: string | null;
+  vote_average: number;
+  vote_count: number;
+};
+
+export type Season = {
+  air_date: string | null;
+  episode_count: number;
+  id: number;
+  name: string;
+  overview: string;
+  poster_path: string | null;
+  season_number: number;
+  vote_average: number;
+};
+
+export type SeasonDetail = Omit<Season, "episode_count"> & {
+  episodes: Episode[];
+};
+
+export type TvDetail = {
+  adult: boolean;
+  backdrop_path: string | null;
+  episode_run_time: number[];
+  first_air_date: string;
+  genres: Genre[];
+  homepage: string;
+  id: number;
+  in_production: boolean;
+  languages: string[];
+  last_air_date: string | null;
+  last_episode_to_air: Episode | null;
+  name: string;
+  next_episode_to_air: Episode | null;
+  networks: Company[];
+  number_of_episodes: number;
+  number_of_seasons: number;
+  origin_country: string[];
+  original_language: string;
+  original_name: string;
+  overview: string;
+  popularity: number;
+  poster_path: string | null;
+  production_companies: Company[];
+  production_countries: Country[];
+  seasons: Season[];
+  spoken_languages: Language[];
+  status: string;
+  tagline: string;
+  type: string;
+  videos: { results: Appended_Video[] };
+  vote_average: number;
+  vote_count: number;
+  // Mirrors of `name`/`first_air_date` so shared UI can read movies and shows alike
+  title: string;
+  release_date: string;
+};
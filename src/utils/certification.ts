@@ -0,0 +1,132 @@
+import { MEDIA_TYPE } from "src/types/Common";
+
+/**
+ * Minimum viewer age for the certifications TMDB returns. Countries with
+ * purely numeric ratings (DE "12", FR "16", ...) are parsed instead.
+ */
+const CERTIFICATION_AGES: Record<string, Record<string, number>> = {
+  US: {
+    G: 0,
+    PG: 7,
+    "PG-13": 13,
+    R: 17,
+    "NC-17": 18,
+    "TV-Y": 0,
+    "TV-Y7": 7,
+    "TV-Y7-FV": 7,
+    "TV-G": 0,
+    "TV-PG": 10,
+    "TV-14": 14,
+    "TV-MA": 17,
+  },
+  GB: { U: 0, PG: 8, "12A": 12, "12": 12, "15": 15, "18": 18, R18: 18 },
+  CA: {
+    G: 0,
+    PG: 8,
+    "14A": 14,
+    "18A": 18,
+    R: 18,
+    C: 0,
+    C8: 8,
+    "14+": 14,
+    "18+": 18,
+  },
+  AU: { G: 0, PG: 8, M: 15, "MA15+": 15, "R18+": 18, X18: 18 },
+  // "A" is adults only here, not "all ages"
+  IN: { U: 0, UA: 12, "U/A": 12, A: 18, S: 18 },
+};
+
+// Letter ratings meaning "suitable for everyone" in various countries
+const ALL_AGES = ["U", "G", "L", "AL", "TP", "ALL", "0"];
+
+export function certificationToAge(
+  certification: string | null | undefined,
+  country: string
+): number | null {
+  if (!certification) {
+    return null;
+  }
+  const normalized = certification.trim().toUpperCase();
+  const countryAges = CERTIFICATION_AGES[country] ?? CERTIFICATION_AGES.US;
+  if (countryAges[normalized] !== undefined) {
+    return countryAges[normalized];
+  }
+  if (ALL_AGES.includes(normalized)) {
+    return 0;
+  }
+  const numeric = normalized.match(/\d{1,2}/);
+  return numeric ? parseInt(numeric[0], 10) : null;
+}
+
+export type MovieReleaseDates = {
+  results: {
+    iso_3166_1: string;
+    release_dates: { certification: string; type: number }[];
+  }[];
+};
+
+export type TvContentRatings = {
+  results: { iso_3166_1: string; rating: string }[];
+};
+
+function findCertification(
+  response: MovieReleaseDates | TvContentRatings,
+  mediaType: MEDIA_TYPE,
+  country: string
+) {
+  const countryResult = (response.results as { iso_3166_1: string }[]).find(
+    (r) => r.iso_3166_1 === country
+  );
+  if (!countryResult) {
+    return null;
+  }
+  if (mediaType === MEDIA_TYPE.Tv) {
+    return (
+      (countryResult as TvContentRatings["results"][number]).rating || null
+    );
+  }
+  const releaseDates = (
+    countryResult as MovieReleaseDates["results"][number]
+  ).release_dates.filter((r) => !!r.certification);
+  // Prefer the theatrical release (type 3) when a title was re-rated later
+  return (
+    (releaseDates.find((r) => r.type === 3) ?? releaseDates[0])
+      ?.certification ?? null
+  );
+}
+
+export type Certification = {
+  certification: string | null;
+  country: string;
+  age: number | null;
+};
+
+/**
+ * Pick the certification for `country`, falling back to the US rating when
+ * a title hasn't been rated there.
+ */
+export function parseCertification(
+  response: MovieReleaseDates | TvContentRatings,
+  mediaType: MEDIA_TYPE,
+  country: string
+): Certification {
+  for (const candidate of country === "US" ? [country] : [country, "US"]) {
+    const certification = findCertification(response, mediaType, candidate);
+    if (certification) {
+      return {
+        certification,
+        country: candidate,
+        age: certificationToAge(certification, candidate),
+      };
+    }
+  }
+  return { certification: null, country, age: null };
+}
+
+export function isAllowedForAge(age: number | null, maxAge: number | null) {
+  if (maxAge === null) {
+    return true;
+  }
+  // Unrated titles are hidden from restricted profiles
+  return age !== null && age <= maxAge;
+}
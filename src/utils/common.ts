@@ -1,6 +1,9 @@
 export const getRandomNumber = (maxNumber: number) =>
   Math.floor(Math.random() * maxNumber);
 
+export const generateId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+
 export const formatMinuteToReadable = (minutes: number) => {
   const h = Math.floor(minutes / 60);
   const m = minutes - h * 60;
@@ -49,3 +52,24 @@ export const formatTime = (current: number) => {
     return `${mString}:${sString}`;
   }
 };
+
+export const formatBitrate = (bitsPerSecond: number) =>
+  bitsPerSecond >= 1000000
+    ? `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
+export const formatPlaybackRate = (rate: number) =>
+  rate === 1 ? "Normal" : `${rate}×`;
+
+export const downloadFile = (
+  content: string,
+  fileName: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,80 @@
+import { HistoryEntry } from "src/types/History";
+import { formatEpisodeLabel } from "src/utils/media";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(timestamp: number) {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export function formatHistoryDay(timestamp: number, now: number = Date.now()) {
+  const day = startOfDay(timestamp);
+  const today = startOfDay(now);
+  if (day === today) {
+    return "Today";
+  }
+  if (day === startOfDay(today - DAY_MS / 2)) {
+    return "Yesterday";
+  }
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+/**
+ * Sessions grouped by the day they started on, newest first.
+ */
+export function groupHistoryByDay(entries: HistoryEntry[]) {
+  const groups: { day: number; entries: HistoryEntry[] }[] = [];
+  [...entries]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .forEach((entry) => {
+      const day = startOfDay(entry.startedAt);
+      const group = groups[groups.length - 1];
+      if (group?.day === day) {
+        group.entries.push(entry);
+      } else {
+        groups.push({ day, entries: [entry] });
+      }
+    });
+  return groups;
+}
+
+export function getHistoryTitle({ video, season, episode }: HistoryEntry) {
+  return season && episode
+    ? `${video.title} ${formatEpisodeLabel(season, episode)}`
+    : video.title;
+}
+
+const CSV_COLUMNS: [string, (entry: HistoryEntry) => string | number][] = [
+  ["title", (entry) => entry.video.title],
+  ["media_type", (entry) => entry.mediaType],
+  ["tmdb_id", (entry) => entry.video.id],
+  ["season", (entry) => entry.season ?? ""],
+  ["episode", (entry) => entry.episode ?? ""],
+  ["started_at", (entry) => new Date(entry.startedAt).toISOString()],
+  ["updated_at", (entry) => new Date(entry.updatedAt).toISOString()],
+  ["percent_watched", (entry) => entry.percentWatched],
+  ["provider", (entry) => entry.providerName],
+];
+
+function escapeCsvValue(value: string | number) {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function historyToCsv(entries: HistoryEntry[]) {
+  return [
+    CSV_COLUMNS.map(([name]) => name).join(","),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map(([, getValue]) => escapeCsvValue(getValue(entry))).join(
+        ","
+      )
+    ),
+  ].join("\r\n");
+}
@@ -0,0 +1,83 @@
+import {
+  MarkerEntry,
+  MarkerFile,
+  Segment,
+  SegmentType,
+} from "src/types/Marker";
+
+export const SEGMENT_LABELS: Record<SegmentType, string> = {
+  intro: "Intro",
+  credits: "Credits",
+};
+const SEGMENT_TYPES = Object.keys(SEGMENT_LABELS) as SegmentType[];
+
+export const MARKER_FILE_FORMAT = "udongflix-markers";
+
+export function createMarkerFile(
+  markers: Record<string, MarkerEntry>
+): MarkerFile {
+  return { format: MARKER_FILE_FORMAT, version: 1, markers };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSegment(value: unknown): value is Segment {
+  return (
+    isRecord(value) &&
+    SEGMENT_TYPES.includes(value.type as SegmentType) &&
+    typeof value.start === "number" &&
+    typeof value.end === "number" &&
+    value.start >= 0 &&
+    value.end > value.start
+  );
+}
+
+/**
+ * Validate an imported marker file. Invalid segments are dropped, but a
+ * file that isn't a marker file at all is rejected.
+ */
+export function parseMarkerFile(text: string): Record<string, MarkerEntry> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error("The file isn't valid JSON.");
+  }
+  if (
+    !isRecord(data) ||
+    data.format !== MARKER_FILE_FORMAT ||
+    !isRecord(data.markers)
+  ) {
+    throw new Error("The file isn't a marker export.");
+  }
+  if (data.version !== 1) {
+    throw new Error(`Unsupported marker file version: ${data.version}`);
+  }
+  return Object.fromEntries(
+    Object.entries(data.markers).flatMap(([key, entry]) => {
+      if (!/^(movie|tv)\/\d+/.test(key) || !isRecord(entry)) {
+        return [];
+      }
+      const segments = Array.isArray(entry.segments)
+        ? entry.segments
+            .filter(isSegment)
+            .map(({ type, start, end }) => ({ type, start, end }))
+        : [];
+      if (segments.length === 0) {
+        return [];
+      }
+      const marker: MarkerEntry = {
+        title: typeof entry.title === "string" ? entry.title : undefined,
+        segments,
+        updatedAt: Number(entry.updatedAt) || Date.now(),
+      };
+      return [[key, marker]];
+    })
+  );
+}
+
+export function findSegmentAt(segments: Segment[], time: number) {
+  return segments.find(({ start, end }) => start <= time && time < end);
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { MEDIA_TYPE } from "src/types/Common";
+import { Movie } from "src/types/Movie";
+import {
+  buildGenreAffinity,
+  computeMatchScore,
+  getWatchedSignals,
+  TASTE_WEIGHTS,
+} from "./match";
+
+const ACTION = 28;
+const COMEDY = 35;
+const DRAMA = 18;
+
+const video = (id: number, genre_ids: number[]) =>
+  ({ id, genre_ids, vote_average: 7, popularity: 100 } as Movie);
+
+describe("getWatchedSignals", () => {
+  it("keeps the furthest session per title", () => {
+    const signals = getWatchedSignals([
+      { mediaType: MEDIA_TYPE.Tv, percentWatched: 40, video: video(1, []) },
+      { mediaType: MEDIA_TYPE.Tv, percentWatched: 100, video: video(1, []) },
+      { mediaType: MEDIA_TYPE.Movie, percentWatched: 50, video: video(1, []) },
+    ]);
+    expect(signals.map((signal) => signal.weight)).toEqual([
+      TASTE_WEIGHTS.watched,
+      TASTE_WEIGHTS.watched / 2,
+    ]);
+  });
+
+  it("still counts finished titles", () => {
+    const [signal] = getWatchedSignals([
+      {
+        mediaType: MEDIA_TYPE.Movie,
+        percentWatched: 100,
+        video: video(2, [ACTION]),
+      },
+    ]);
+    expect(signal.weight).toBe(TASTE_WEIGHTS.watched);
+  });
+});
+
+describe("buildGenreAffinity", () => {
+  it("scales genres relative to the strongest one", () => {
+    expect(
+      buildGenreAffinity([
+        { video: video(1, [ACTION, COMEDY]), weight: 2 },
+        { video: video(2, [ACTION]), weight: 2 },
+        { video: video(3, [DRAMA]), weight: -2 },
+      ])
+    ).toEqual({ [ACTION]: 1, [COMEDY]: 0.5, [DRAMA]: -0.5 });
+  });
+
+  it("is empty without signals", () => {
+    expect(buildGenreAffinity([])).toEqual({});
+  });
+});
+
+describe("computeMatchScore", () => {
+  const affinity = { [ACTION]: 1, [DRAMA]: -1 };
+
+  it("ranks liked genres above disliked ones", () => {
+    expect(computeMatchScore(video(1, [ACTION]), affinity)).toBeGreaterThan(
+      computeMatchScore(video(2, [DRAMA]), affinity)
+    );
+  });
+
+  it("stays within 1-99", () => {
+    const best = { genre_ids: [ACTION], vote_average: 10, popularity: 1e9 };
+    const worst = { genre_ids: [DRAMA], vote_average: 0, popularity: 0 };
+    expect(computeMatchScore(best, affinity)).toBeLessThanOrEqual(99);
+    expect(computeMatchScore(worst, affinity)).toBeGreaterThanOrEqual(1);
+  });
+
+  it("falls back to rating and popularity without taste signals", () => {
+    expect(
+      computeMatchScore(
+        { genre_ids: [ACTION], vote_average: 9, popularity: 100 },
+        {}
+      )
+    ).toBeGreaterThan(
+      computeMatchScore(
+        { genre_ids: [ACTION], vote_average: 4, popularity: 100 },
+        {}
+      )
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { HistoryEntry } from "src/types/History";
+import { Movie } from "src/types/Movie";
+import { RATING } from "src/types/Rating";
+
+// How strongly a single interaction pulls its genres up (or down)
+export const TASTE_WEIGHTS = {
+  watched: 1,
+  myList: 0.5,
+  [RATING.NotForMe]: -2,
+  [RATING.Like]: 1.5,
+  [RATING.Love]: 3,
+};
+
+export type TasteSignal = {
+  video: Pick<Movie, "genre_ids">;
+  weight: number;
+};
+
+export type GenreAffinity = Record<number, number>;
+
+/**
+ * One signal per title watched, weighted by the furthest any session got.
+ * Episodes count towards their show and rewatches don't add up.
+ */
+export function getWatchedSignals(
+  history: Pick<HistoryEntry, "mediaType" | "percentWatched" | "video">[]
+): TasteSignal[] {
+  const byTitle: Record<string, TasteSignal> = {};
+  history.forEach(({ mediaType, percentWatched, video }) => {
+    const key = `${mediaType}/${video.id}`;
+    const weight = (TASTE_WEIGHTS.watched * percentWatched) / 100;
+    if ((byTitle[key]?.weight ?? -1) < weight) {
+      byTitle[key] = { video, weight };
+    }
+  });
+  return Object.values(byTitle);
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Sum signal weights per genre and scale them into [-1, 1] relative to the
+ * strongest genre, so a long history doesn't drown out everything else.
+ */
+export function buildGenreAffinity(signals: TasteSignal[]): GenreAffinity {
+  const totals: GenreAffinity = {};
+  signals.forEach(({ video, weight }) => {
+    video.genre_ids.forEach((genreId) => {
+      totals[genreId] = (totals[genreId] ?? 0) + weight;
+    });
+  });
+  const strongest = Math.max(
+    0,
+    ...Object.values(totals).map((value) => Math.abs(value))
+  );
+  if (strongest === 0) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(totals).map(([genreId, value]) => [
+      genreId,
+      value / strongest,
+    ])
+  );
+}
+
+/**
+ * Percentage (1-99) of how well `video` fits the viewer. Without any taste
+ * signals it falls back to the title's own rating and popularity.
+ */
+export function computeMatchScore(
+  video: Pick<Movie, "genre_ids" | "vote_average" | "popularity">,
+  affinity: GenreAffinity
+) {
+  const quality = clamp((video.vote_average ?? 0) / 10, 0, 1);
+  // TMDB popularity is unbounded, log-scale it so 1000+ counts as "very"
+  const popularity = clamp(Math.log10((video.popularity ?? 0) + 1) / 3, 0, 1);
+  const hasTaste = Object.keys(affinity).length > 0;
+
+  let raw = 0.8 * quality + 0.2 * popularity;
+  if (hasTaste) {
+    const genreScores = video.genre_ids.map((id) => affinity[id] ?? 0);
+    const genreAffinity = genreScores.length
+      ? genreScores.reduce((sum, score) => sum + score, 0) / genreScores.length
+      : 0;
+    raw = 0.45 * ((genreAffinity + 1) / 2) + 0.45 * quality + 0.1 * popularity;
+  }
+  return Math.round(clamp(40 + 59 * raw, 1, 99));
+}
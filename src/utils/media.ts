@@ -0,0 +1,128 @@
+import { MAIN_PATH } from "src/constant";
+import { MEDIA_TYPE } from "src/types/Common";
+import { MediaDetail, Movie } from "src/types/Movie";
+import { Season, TvDetail, TvShow } from "src/types/Tv";
+
+/**
+ * TMDB returns TV shows with `name`/`first_air_date` instead of
+ * `title`/`release_date`. Map them onto the `Movie` shape so every card,
+ * slider and grid can render both media types the same way.
+ */
+export function tvShowToMovie(tvShow: TvShow): Movie {
+  return {
+    poster_path: tvShow.poster_path,
+    adult: tvShow.adult,
+    overview: tvShow.overview,
+    release_date: tvShow.first_air_date ?? "",
+    genre_ids: tvShow.genre_ids ?? [],
+    id: tvShow.id,
+    original_title: tvShow.original_name,
+    original_language: tvShow.original_language,
+    title: tvShow.name,
+    backdrop_path: tvShow.backdrop_path,
+    popularity: tvShow.popularity,
+    vote_count: tvShow.vote_count,
+    video: false,
+    vote_average: tvShow.vote_average,
+    media_type: MEDIA_TYPE.Tv,
+  };
+}
+
+export function getMediaType(video: Movie): MEDIA_TYPE {
+  return video.media_type ?? MEDIA_TYPE.Movie;
+}
+
+/**
+ * Tag list results with their media type, converting TV shows on the way.
+ */
+export function normalizeResults(
+  results: (Movie | TvShow)[],
+  mediaType: MEDIA_TYPE
+): Movie[] {
+  return mediaType === MEDIA_TYPE.Tv
+    ? (results as TvShow[]).map(tvShowToMovie)
+    : (results as Movie[]).map((movie) => ({
+        ...movie,
+        media_type: MEDIA_TYPE.Movie,
+      }));
+}
+
+export function getMediaTypeLabel(mediaType: MEDIA_TYPE) {
+  return mediaType === MEDIA_TYPE.Tv ? "TV Shows" : "Movies";
+}
+
+/**
+ * Build a list item from a detail response so titles opened from the
+ * detail modal or the watch page can be stored alongside regular cards.
+ */
+export function detailToMovie(
+  detail: MediaDetail,
+  mediaType: MEDIA_TYPE = MEDIA_TYPE.Movie
+): Movie {
+  return {
+    poster_path: detail.poster_path,
+    adult: detail.adult,
+    overview: detail.overview,
+    release_date: detail.release_date ?? "",
+    genre_ids: detail.genres?.map((genre) => genre.id) ?? [],
+    id: detail.id,
+    original_title: isTvDetail(detail)
+      ? detail.original_name
+      : detail.original_title,
+    original_language: detail.original_language,
+    title: detail.title,
+    backdrop_path: detail.backdrop_path,
+    popularity: detail.popularity,
+    vote_count: detail.vote_count,
+    video: isTvDetail(detail) ? false : detail.video,
+    vote_average: detail.vote_average,
+    media_type: mediaType,
+  };
+}
+
+export function isTvDetail(detail: MediaDetail): detail is TvDetail {
+  return "seasons" in detail;
+}
+
+/**
+ * Seasons that can actually be played. "Specials" (season 0) are only
+ * listed when the show has nothing else.
+ */
+export function getPlayableSeasons(detail: TvDetail): Season[] {
+  const seasons = (detail.seasons ?? []).filter((s) => s.episode_count > 0);
+  const regularSeasons = seasons.filter((s) => s.season_number > 0);
+  return regularSeasons.length > 0 ? regularSeasons : seasons;
+}
+
+export function getWatchPath(
+  mediaType: MEDIA_TYPE,
+  id: number,
+  season?: number,
+  episode?: number
+) {
+  if (mediaType === MEDIA_TYPE.Tv && season && episode) {
+    return `/${MAIN_PATH.watch}/${mediaType}/${id}/${season}/${episode}`;
+  }
+  return `/${MAIN_PATH.watch}/${mediaType}/${id}`;
+}
+
+export function formatDetailParam(mediaType: MEDIA_TYPE, id: number) {
+  return `${mediaType}:${id}`;
+}
+
+export function parseDetailParam(
+  value: string | null
+): { mediaType: MEDIA_TYPE; id: number } | null {
+  const [mediaType, id] = value?.split(":") ?? [];
+  if (
+    !Object.values(MEDIA_TYPE).includes(mediaType as MEDIA_TYPE) ||
+    !/^\d+$/.test(id ?? "")
+  ) {
+    return null;
+  }
+  return { mediaType: mediaType as MEDIA_TYPE, id: parseInt(id, 10) };
+}
+
+export function formatEpisodeLabel(season: number, episode: number) {
+  return `S${season}:E${episode}`;
+}
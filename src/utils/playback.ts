@@ -0,0 +1,35 @@
+import { RESUME_MIN_SECONDS, WATCHED_THRESHOLD } from "src/constant";
+import { MEDIA_TYPE } from "src/types/Common";
+import { PlaybackProgress } from "src/types/Playback";
+
+/**
+ * Progress is stored per title for movies and per episode for TV shows,
+ * e.g. `movie/550` or `tv/1399/1/3`.
+ */
+export function getProgressKey(
+  mediaType: MEDIA_TYPE,
+  id: number,
+  season?: number,
+  episode?: number
+) {
+  if (mediaType === MEDIA_TYPE.Tv && season && episode) {
+    return `${mediaType}/${id}/${season}/${episode}`;
+  }
+  return `${mediaType}/${id}`;
+}
+
+export function getProgressRatio({ position, duration }: PlaybackProgress) {
+  return duration > 0 ? Math.min(position / duration, 1) : 0;
+}
+
+export function isWatched(position: number, duration: number) {
+  return duration > 0 && position / duration >= WATCHED_THRESHOLD;
+}
+
+export function isResumable(progress?: PlaybackProgress) {
+  return (
+    !!progress &&
+    progress.position >= RESUME_MIN_SECONDS &&
+    !isWatched(progress.position, progress.duration)
+  );
+}
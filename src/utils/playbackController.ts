@@ -0,0 +1,144 @@
+import Player from "video.js/dist/types/player";
+import { PlaybackController, PlaybackEvent } from "src/types/Playback";
+
+export function createVideoJsController(player: Player): PlaybackController {
+  // The player may already be gone when progress is saved on unmount, report
+  // nothing instead of throwing
+  const read = (getValue: () => number) =>
+    player.isDisposed() ? 0 : getValue();
+
+  return {
+    kind: "videojs",
+    capabilities: { control: true },
+    paused: () => player.isDisposed() || player.paused(),
+    currentTime: () => read(() => player.currentTime()),
+    duration: () => read(() => player.duration()),
+    play: () => {
+      player.play();
+    },
+    pause: () => player.pause(),
+    seek: (time) => {
+      player.currentTime(time);
+    },
+    on: (event, listener) => player.on(event, listener),
+    off: (event, listener) => {
+      if (!player.isDisposed()) {
+        player.off(event, listener);
+      }
+    },
+    // The player is disposed together with its component
+    dispose: () => {},
+  };
+}
+
+interface EmbedPlayerEvent {
+  event: string;
+  currentTime?: number;
+  duration?: number;
+}
+
+/**
+ * Embeds that report playback post
+ * `{ type: "PLAYER_EVENT", data: { event, currentTime, duration } }`,
+ * some of them as a JSON string.
+ */
+function parseEmbedMessage(data: unknown): EmbedPlayerEvent | null {
+  let message = data;
+  if (typeof message === "string") {
+    try {
+      message = JSON.parse(message);
+    } catch (error) {
+      return null;
+    }
+  }
+  if (
+    !message ||
+    typeof message !== "object" ||
+    (message as { type?: unknown }).type !== "PLAYER_EVENT"
+  ) {
+    return null;
+  }
+  const payload = (message as { data?: Partial<EmbedPlayerEvent> }).data;
+  return payload && typeof payload.event === "string"
+    ? (payload as EmbedPlayerEvent)
+    : null;
+}
+
+const EMBED_EVENTS: Record<string, PlaybackEvent> = {
+  play: "play",
+  playing: "play",
+  pause: "pause",
+  timeupdate: "timeupdate",
+  seeked: "timeupdate",
+  ended: "ended",
+  complete: "ended",
+};
+
+/**
+ * Follows an embedded player through the messages it posts to the page.
+ * Embeds that don't post any simply never emit events, and none of them
+ * take commands, so the controls are no-ops.
+ */
+export function createIframeController(
+  iframe: HTMLIFrameElement
+): PlaybackController {
+  const listeners: Partial<Record<PlaybackEvent, Set<() => void>>> = {};
+  const state = { paused: true, currentTime: 0, duration: 0 };
+
+  const emit = (event: PlaybackEvent) => {
+    listeners[event]?.forEach((listener) => listener());
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== iframe.contentWindow) {
+      return;
+    }
+    const message = parseEmbedMessage(event.data);
+    if (!message) {
+      return;
+    }
+    const { currentTime, duration } = message;
+    if (typeof currentTime === "number" && isFinite(currentTime)) {
+      state.currentTime = currentTime;
+    }
+    if (
+      typeof duration === "number" &&
+      isFinite(duration) &&
+      duration !== state.duration
+    ) {
+      state.duration = duration;
+      emit("durationchange");
+    }
+    const playbackEvent = EMBED_EVENTS[message.event];
+    if (playbackEvent === "play" || playbackEvent === "timeupdate") {
+      state.paused = false;
+    } else if (playbackEvent === "pause" || playbackEvent === "ended") {
+      state.paused = true;
+    }
+    if (playbackEvent) {
+      emit(playbackEvent);
+    }
+  };
+
+  window.addEventListener("message", handleMessage);
+
+  return {
+    kind: "iframe",
+    capabilities: { control: false },
+    paused: () => state.paused,
+    currentTime: () => state.currentTime,
+    duration: () => state.duration,
+    play: () => {},
+    pause: () => {},
+    seek: () => {},
+    on: (event, listener) => {
+      (listeners[event] ??= new Set()).add(listener);
+    },
+    off: (event, listener) => {
+      listeners[event]?.delete(listener);
+    },
+    dispose: () => {
+      window.removeEventListener("message", handleMessage);
+    },
+  };
+}
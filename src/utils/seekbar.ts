@@ -0,0 +1,51 @@
+import { SeekbarMarker, ThumbnailCue } from "src/types/Playback";
+import { parseVttCues } from "./subtitles";
+
+export type BufferedRange = [number, number];
+
+export function getBufferedRanges(
+  ranges: Pick<TimeRanges, "length" | "start" | "end">
+): BufferedRange[] {
+  return Array.from({ length: ranges.length }, (_, idx) => [
+    ranges.start(idx),
+    ranges.end(idx),
+  ]);
+}
+
+/**
+ * Thumbnail tracks point every cue at an image, usually a sprite sheet
+ * cropped with a media fragment: `sprite.jpg#xywh=160,0,160,90`.
+ * Image paths are relative to the track itself.
+ */
+export function parseThumbnailTrack(vtt: string, trackUrl: string) {
+  // Same-origin tracks are often given as a path, e.g. `/media/thumbs.vtt`
+  const baseUrl = new URL(trackUrl, window.location.href);
+  return parseVttCues(vtt).flatMap<ThumbnailCue>(({ start, end, text }) => {
+    const [path, fragment] = text.split("#");
+    if (!path) {
+      return [];
+    }
+    const xywh = fragment
+      ?.match(/^xywh=(\d+),(\d+),(\d+),(\d+)$/)
+      ?.slice(1)
+      .map(Number) as ThumbnailCue["xywh"];
+    return [{ start, end, url: new URL(path, baseUrl).href, xywh }];
+  });
+}
+
+export function parseChapterTrack(vtt: string): SeekbarMarker[] {
+  return parseVttCues(vtt).map(({ start, end, text }) => ({
+    start,
+    end,
+    label: text,
+  }));
+}
+
+export function findCueAt<T extends { start: number; end?: number }>(
+  cues: T[],
+  time: number
+) {
+  return cues.find(
+    (cue) => cue.start <= time && (cue.end === undefined || time < cue.end)
+  );
+}
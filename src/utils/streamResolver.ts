@@ -0,0 +1,243 @@
+/**
+ * Stream Resolver
+ *
+ * Tries every configured provider in `STREAM_PROVIDER_ORDER` until one of
+ * them can serve the requested title. Each attempt is timed and reported so
+ * providers that keep failing are skipped for a while instead of being
+ * retried on every visit.
+ */
+
+import { YOUTUBE_URL } from 'src/constant';
+import {
+  ProviderHealth,
+  ResolvedStream,
+  StreamRequest,
+} from 'src/types/Stream';
+import {
+  getBestStremioStream,
+  getImdbIdForTmdb,
+  getStremioStreamForBingeGroup,
+  getStremioStreams,
+  getStremioVideoSource,
+  STREMIO_ADDONS,
+  USE_STREMIO,
+} from './stremio';
+import {
+  getCustomVideoSource,
+  getVidsrcUrl,
+  STREAM_PROVIDER_ORDER,
+  StreamProviderType,
+  USE_VIDSRC,
+  VideoSource,
+  VIDSRC_DOMAINS,
+} from './videoSources';
+
+/**
+ * Health Configuration
+ */
+export const PROVIDER_FAILURE_THRESHOLD = 2; // Consecutive failures before cooling down
+export const PROVIDER_COOLDOWN_MS = 10 * 60 * 1000; // 10 minutes
+export const PROVIDER_PROBE_TIMEOUT = 5000; // 5 seconds
+
+export interface StreamProvider {
+  id: string;
+  name: string;
+  resolve: (
+    request: StreamRequest
+  ) => Promise<Omit<
+    ResolvedStream,
+    'providerId' | 'providerName' | 'latency'
+  > | null>;
+}
+
+/**
+ * Check whether a provider may be tried, i.e. it isn't cooling down
+ */
+export function isProviderHealthy(
+  health: ProviderHealth | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!health || health.failures < PROVIDER_FAILURE_THRESHOLD) {
+    return true;
+  }
+  return now - (health.lastFailureAt ?? 0) > PROVIDER_COOLDOWN_MS;
+}
+
+/**
+ * Vidsrc embeds can't be inspected cross-origin, so a domain counts as up
+ * when an opaque request to it completes at all.
+ */
+async function probeDomain(domain: string): Promise<boolean> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () => controller.abort(),
+    PROVIDER_PROBE_TIMEOUT
+  );
+  try {
+    await fetch(`https://${domain}/`, {
+      mode: 'no-cors',
+      signal: controller.signal,
+    });
+    return true;
+  } catch (error) {
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+const customProvider: StreamProvider = {
+  id: 'custom',
+  name: 'Custom source',
+  resolve: async ({ tmdbId, mediaType }) => {
+    const source = getCustomVideoSource(tmdbId, mediaType);
+    return source ? { source } : null;
+  },
+};
+
+function createStremioProvider(addons: string[]): StreamProvider {
+  return {
+    id: 'stremio',
+    name: 'Stremio',
+    resolve: async (request) => {
+      const { tmdbId, mediaType, season, episode, bingeGroup } = request;
+      if (!USE_STREMIO) {
+        return null;
+      }
+      // Movie details already carry the IMDb id, TV shows need a lookup
+      const imdbId =
+        request.imdbId ?? (await getImdbIdForTmdb(tmdbId, mediaType));
+      if (!imdbId) {
+        return null;
+      }
+      const streams = await getStremioStreams(
+        mediaType === 'tv' ? 'series' : 'movie',
+        imdbId,
+        season,
+        episode,
+        addons
+      );
+      if (!streams) {
+        return null;
+      }
+      const stream = bingeGroup
+        ? getStremioStreamForBingeGroup(streams, bingeGroup)
+        : getBestStremioStream(streams);
+      if (!stream) {
+        return null;
+      }
+      return {
+        source: getStremioVideoSource(stream),
+        stremioStream: stream,
+        stremioStreams: streams,
+      };
+    },
+  };
+}
+
+function createVidsrcProvider(domain: string): StreamProvider {
+  return {
+    id: `vidsrc:${domain}`,
+    name: `Vidsrc (${domain})`,
+    resolve: async ({ tmdbId, mediaType, season, episode }) => {
+      if (!(await probeDomain(domain))) {
+        throw new Error(`${domain} is unreachable`);
+      }
+      const source: VideoSource = {
+        url: getVidsrcUrl(tmdbId, mediaType, season, episode, domain),
+        type: 'vidsrc',
+        quality: 'auto',
+      };
+      return { source };
+    },
+  };
+}
+
+const trailerProvider: StreamProvider = {
+  id: 'trailer',
+  name: 'Trailer',
+  resolve: async ({ trailerKey }) =>
+    trailerKey
+      ? {
+          source: {
+            url: `${YOUTUBE_URL}${trailerKey}`,
+            type: 'youtube',
+          },
+        }
+      : null,
+};
+
+/**
+ * Expand the configured order into concrete providers
+ */
+export function getStreamProviders(
+  order: StreamProviderType[] = STREAM_PROVIDER_ORDER,
+  { stremioAddons = STREMIO_ADDONS }: { stremioAddons?: string[] } = {}
+): StreamProvider[] {
+  return order.flatMap((type) => {
+    switch (type) {
+      case 'custom':
+        return [customProvider];
+      case 'stremio':
+        return [createStremioProvider(stremioAddons)];
+      case 'vidsrc':
+        return USE_VIDSRC ? VIDSRC_DOMAINS.map(createVidsrcProvider) : [];
+      case 'trailer':
+        return [trailerProvider];
+      default:
+        return [];
+    }
+  });
+}
+
+export interface ResolveStreamOptions {
+  providers?: StreamProvider[];
+  health?: Record<string, ProviderHealth>;
+  // Providers already known not to work for this title (e.g. playback failed)
+  exclude?: string[];
+  onSuccess?: (providerId: string, latency: number) => void;
+  onFailure?: (providerId: string) => void;
+}
+
+/**
+ * Resolve a stream by trying providers in order.
+ * A provider returning null simply has nothing for this title; only thrown
+ * errors count against its health.
+ */
+export async function resolveStream(
+  request: StreamRequest,
+  {
+    providers = getStreamProviders(),
+    health = {},
+    exclude = [],
+    onSuccess,
+    onFailure,
+  }: ResolveStreamOptions = {}
+): Promise<ResolvedStream | null> {
+  for (const provider of providers) {
+    if (
+      exclude.includes(provider.id) ||
+      !isProviderHealthy(health[provider.id])
+    ) {
+      continue;
+    }
+    const startedAt = performance.now();
+    try {
+      const result = await provider.resolve(request);
+      if (result) {
+        const latency = Math.round(performance.now() - startedAt);
+        onSuccess?.(provider.id, latency);
+        return {
+          ...result,
+          providerId: provider.id,
+          providerName: provider.name,
+          latency,
+        };
+      }
+    } catch (error) {
+      console.warn(`Stream provider ${provider.id} failed:`, error);
+      onFailure?.(provider.id);
+    }
+  }
+  return null;
+}
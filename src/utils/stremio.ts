@@ -8,6 +8,9 @@
  * Addon Protocol: https://github.com/Stremio/stremio-addon-sdk/blob/master/docs/protocol.md
  */
 
+import { API_ENDPOINT_URL, TMDB_V3_API_KEY } from 'src/constant';
+import { getVideoSourceType, VideoSource } from './videoSources';
+
 export interface StremioStream {
   url: string;
   title: string;
@@ -21,29 +24,176 @@ export interface StremioStream {
     lang: string;
     id?: string;
   }>;
+  // Name of the addon the stream came from, filled in when merging
+  addonName?: string;
 }
 
 export interface StremioStreamResponse {
   streams: StremioStream[];
 }
 
+type StremioResource =
+  | string
+  | {
+      name: string;
+      types?: string[];
+      idPrefixes?: string[];
+    };
+
+/**
+ * Addon manifest, see the protocol docs for the full format
+ */
+export interface StremioManifest {
+  id: string;
+  version: string;
+  name: string;
+  description?: string;
+  resources: StremioResource[];
+  types: string[];
+  idPrefixes?: string[];
+}
+
 /**
  * Popular Stremio Addon URLs (these provide streaming links)
  * You can add your own addon URLs here
  */
 export const STREMIO_ADDONS = [
-  // Official Stremio addons
+  // Official Stremio addons (Cinemeta only serves metadata, so it is skipped
+  // for streams by the manifest check below)
   'https://v3-cinemeta.strem.io/manifest.json',
-  // Community addons (you may need to find working ones)
-  // Add more addon URLs here
+  // Community addons, comma separated in VITE_APP_STREMIO_ADDONS
+  ...(import.meta.env.VITE_APP_STREMIO_ADDONS || '')
+    .split(',')
+    .map((url: string) => url.trim())
+    .filter(Boolean),
 ];
 
 /**
  * Stremio Configuration
  */
-export const USE_STREMIO = false; // Set to true to enable Stremio
+// Set VITE_APP_USE_STREMIO=false to disable Stremio
+export const USE_STREMIO = import.meta.env.VITE_APP_USE_STREMIO !== 'false';
 export const STREMIO_TIMEOUT = 10000; // 10 seconds timeout for requests
 
+/**
+ * GET a JSON document, giving up after `STREMIO_TIMEOUT`
+ */
+async function fetchJson<T>(url: string): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), STREMIO_TIMEOUT);
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`${url} responded with ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Validate an untrusted manifest document
+ * Throws an Error describing the first problem found
+ */
+export function parseStremioManifest(data: unknown): StremioManifest {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Manifest is not a JSON object');
+  }
+  const manifest = data as Partial<StremioManifest>;
+  (['id', 'name', 'version'] as const).forEach(field => {
+    if (typeof manifest[field] !== 'string' || !manifest[field]) {
+      throw new Error(`Manifest is missing "${field}"`);
+    }
+  });
+  if (!Array.isArray(manifest.resources) || manifest.resources.length === 0) {
+    throw new Error('Manifest does not declare any "resources"');
+  }
+  const validResources = manifest.resources.every(
+    r =>
+      typeof r === 'string' ||
+      (!!r && typeof r === 'object' && typeof r.name === 'string')
+  );
+  if (!validResources) {
+    throw new Error('Manifest has malformed "resources"');
+  }
+  if (!Array.isArray(manifest.types)) {
+    throw new Error('Manifest is missing "types"');
+  }
+  return manifest as StremioManifest;
+}
+
+/**
+ * Addon base URL, i.e. the manifest URL without `/manifest.json`
+ */
+export function getStremioAddonBase(manifestUrl: string): string {
+  return manifestUrl.replace(/\/manifest\.json$/, '');
+}
+
+// Manifests rarely change, so they're fetched once per session
+const manifestCache = new Map<string, Promise<StremioManifest>>();
+
+/**
+ * Fetch (and cache) an addon manifest
+ */
+export function fetchStremioManifest(manifestUrl: string): Promise<StremioManifest> {
+  let manifest = manifestCache.get(manifestUrl);
+  if (!manifest) {
+    manifest = fetchJson<unknown>(manifestUrl).then(parseStremioManifest);
+    // Don't cache failures, the addon may be back on the next try
+    manifest.catch(() => manifestCache.delete(manifestUrl));
+    manifestCache.set(manifestUrl, manifest);
+  }
+  return manifest;
+}
+
+/**
+ * Check the addon declares a `stream` resource for this type and id.
+ * Resource-level `types`/`idPrefixes` take precedence over the manifest's.
+ */
+export function addonSupportsStream(
+  manifest: StremioManifest,
+  type: 'movie' | 'series',
+  id: string
+): boolean {
+  const resource = manifest.resources.find(
+    r => (typeof r === 'string' ? r : r.name) === 'stream'
+  );
+  if (!resource) {
+    return false;
+  }
+  const types = (typeof resource !== 'string' && resource.types) || manifest.types;
+  const idPrefixes =
+    (typeof resource !== 'string' && resource.idPrefixes) || manifest.idPrefixes;
+  if (!types.includes(type)) {
+    return false;
+  }
+  return !idPrefixes || idPrefixes.some(prefix => id.startsWith(prefix));
+}
+
+/**
+ * Drop streams Stremio would play through its own server (torrents without
+ * a URL) and duplicates offered by several addons
+ */
+function mergeStreams(streamLists: StremioStream[][]): StremioStream[] {
+  const seen = new Set<string>();
+  const merged: StremioStream[] = [];
+  streamLists.flat().forEach(stream => {
+    if (!stream.url || seen.has(stream.url)) {
+      return;
+    }
+    seen.add(stream.url);
+    merged.push(stream);
+  });
+  return merged;
+}
+
 /**
  * Get Stremio stream URL for a movie or TV show
  * 
@@ -57,61 +207,50 @@ export async function getStremioStreams(
   type: 'movie' | 'series',
   imdbId: string,
   season?: number,
-  episode?: number
+  episode?: number,
+  addons: string[] = STREMIO_ADDONS
 ): Promise<StremioStream[] | null> {
   if (!USE_STREMIO) {
     return null;
   }
 
-  try {
-    // Build the stream resource URL
-    let resourceUrl = '';
-    
-    if (type === 'movie') {
-      resourceUrl = `/stream/movie/${imdbId}.json`;
-    } else if (type === 'series' && season !== undefined && episode !== undefined) {
-      resourceUrl = `/stream/series/${imdbId}:${season}:${episode}.json`;
-    } else {
-      return null;
-    }
+  // Build the stream resource id
+  let resourceId = '';
+  if (type === 'movie') {
+    resourceId = imdbId;
+  } else if (type === 'series' && season !== undefined && episode !== undefined) {
+    resourceId = `${imdbId}:${season}:${episode}`;
+  } else {
+    return null;
+  }
 
-    // Try each addon until we get a response
-    for (const addonUrl of STREMIO_ADDONS) {
-      try {
-        const addonBase = addonUrl.replace('/manifest.json', '');
-        const streamUrl = `${addonBase}${resourceUrl}`;
-        
-        // Create timeout controller
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), STREMIO_TIMEOUT);
-        
-        const response = await fetch(streamUrl, {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-          },
-          signal: controller.signal,
-        });
-        
-        clearTimeout(timeoutId);
-
-        if (response.ok) {
-          const data: StremioStreamResponse = await response.json();
-          if (data.streams && data.streams.length > 0) {
-            return data.streams;
-          }
-        }
-      } catch (error) {
-        console.warn(`Stremio addon ${addonUrl} failed:`, error);
-        continue; // Try next addon
+  // Query every addon that can serve this id in parallel, keeping addon order
+  const results = await Promise.allSettled(
+    addons.map(async addonUrl => {
+      const manifest = await fetchStremioManifest(addonUrl);
+      if (!addonSupportsStream(manifest, type, resourceId)) {
+        return [];
       }
-    }
+      const addonBase = getStremioAddonBase(addonUrl);
+      const data = await fetchJson<StremioStreamResponse>(
+        `${addonBase}/stream/${type}/${encodeURIComponent(resourceId)}.json`
+      );
+      return (data.streams || []).map(stream => ({
+        ...stream,
+        addonName: manifest.name,
+      }));
+    })
+  );
 
-    return null;
-  } catch (error) {
-    console.error('Error fetching Stremio streams:', error);
-    return null;
-  }
+  const streamLists = results.map((result, index) => {
+    if (result.status === 'rejected') {
+      console.warn(`Stremio addon ${addons[index]} failed:`, result.reason);
+      return [];
+    }
+    return result.value;
+  });
+  const streams = mergeStreams(streamLists);
+  return streams.length > 0 ? streams : null;
 }
 
 /**
@@ -136,6 +275,68 @@ export function getBestStremioStream(streams: StremioStream[]): StremioStream |
   return streams[0];
 }
 
+export interface StremioStreamInfo {
+  quality?: string;
+  size?: string;
+  codec?: string;
+}
+
+/**
+ * Pull quality/size/codec out of the free-form stream name and title.
+ * Addons have no common format, so this only catches the usual spellings
+ * like "1080p", "4K", "💾 2.3 GB", "x265" or "HEVC".
+ */
+export function parseStremioStreamInfo(
+  stream: StremioStream
+): StremioStreamInfo {
+  const text = `${stream.name ?? ''} ${stream.title ?? ''}`;
+  const quality = text.match(
+    /\b(2160p|1440p|1080p|720p|576p|480p|360p|4k|uhd)\b/i
+  )?.[1];
+  const size = text.match(/(\d+(?:[.,]\d+)?\s?(?:GB|MB|GiB|MiB))\b/i)?.[1];
+  const codec = text.match(
+    /\b(x265|x264|h\.?265|h\.?264|hevc|avc|av1|vp9)\b/i
+  )?.[1];
+  return {
+    quality:
+      quality && (/^(4k|uhd)$/i.test(quality) ? '2160p' : quality.toLowerCase()),
+    size: size?.replace(',', '.'),
+    codec: codec?.toUpperCase(),
+  };
+}
+
+export function getStremioVideoSource(stream: StremioStream): VideoSource {
+  const type = getVideoSourceType(stream.url);
+  return {
+    url: stream.url,
+    type,
+    quality:
+      type === 'hls' || type === 'dash'
+        ? 'auto'
+        : (parseStremioStreamInfo(stream).quality as VideoSource['quality']),
+  };
+}
+
+/**
+ * Pick the stream to continue a binge with.
+ * Streams sharing the previous episode's `behaviorHints.bingeGroup` come from
+ * the same release/source, so they're preferred over the generic best pick.
+ */
+export function getStremioStreamForBingeGroup(
+  streams: StremioStream[],
+  bingeGroup?: string
+): StremioStream | null {
+  if (bingeGroup) {
+    const sameGroup = streams.find(
+      stream => stream.behaviorHints?.bingeGroup === bingeGroup
+    );
+    if (sameGroup) {
+      return sameGroup;
+    }
+  }
+  return getBestStremioStream(streams);
+}
+
 /**
  * Convert IMDB ID to Stremio format
  * Stremio uses IMDB IDs in format: tt1234567
@@ -145,9 +346,36 @@ export function formatImdbId(imdbId: string | number): string {
   return id.startsWith('tt') ? id : `tt${id}`;
 }
 
+// TMDB -> IMDb ids never change, keep them for the session
+const imdbIdCache = new Map<string, string | null>();
+
+/**
+ * Look up the IMDb id of a TMDB movie or TV show via `external_ids`
+ */
+export async function getImdbIdForTmdb(
+  tmdbId: number,
+  mediaType: 'movie' | 'tv'
+): Promise<string | null> {
+  const cacheKey = `${mediaType}/${tmdbId}`;
+  if (imdbIdCache.has(cacheKey)) {
+    return imdbIdCache.get(cacheKey) ?? null;
+  }
+  try {
+    const data = await fetchJson<{ imdb_id?: string | null }>(
+      `${API_ENDPOINT_URL}/${mediaType}/${tmdbId}/external_ids?api_key=${TMDB_V3_API_KEY}`
+    );
+    const imdbId = data.imdb_id ? formatImdbId(data.imdb_id) : null;
+    imdbIdCache.set(cacheKey, imdbId);
+    return imdbId;
+  } catch (error) {
+    console.warn(`Could not find the IMDb id of ${cacheKey}:`, error);
+    return null;
+  }
+}
+
 /**
  * Get Stremio stream URL for TMDB movie ID
- * Note: This requires converting TMDB ID to IMDB ID first
+ * The TMDB id is converted to an IMDb id first, which is what addons use
  */
 export async function getStremioStreamForTmdb(
   tmdbId: number,
@@ -155,19 +383,15 @@ export async function getStremioStreamForTmdb(
   season?: number,
   episode?: number
 ): Promise<string | null> {
-  // First, we need to get the IMDB ID from TMDB
-  // This would typically be done via a TMDB API call
-  // For now, this is a placeholder - you'll need to implement TMDB -> IMDB conversion
-  
-  // Example: Fetch IMDB ID from TMDB API
-  // const tmdbResponse = await fetch(`https://api.themoviedb.org/3/movie/${tmdbId}?api_key=YOUR_KEY`);
-  // const tmdbData = await tmdbResponse.json();
-  // const imdbId = tmdbData.imdb_id;
-  
-  // Then use the IMDB ID to get Stremio streams
-  // const streams = await getStremioStreams(mediaType === 'movie' ? 'movie' : 'series', imdbId, season, episode);
-  
-  // For now, return null as this requires additional setup
-  return null;
+  const imdbId = await getImdbIdForTmdb(tmdbId, mediaType);
+  if (!imdbId) {
+    return null;
+  }
+  const streams = await getStremioStreams(
+    mediaType === 'movie' ? 'movie' : 'series',
+    imdbId,
+    season,
+    episode
+  );
+  return streams ? getBestStremioStream(streams)?.url ?? null : null;
 }
-
@@ -0,0 +1,187 @@
+import { CaptionStyle } from "src/types/Preferences";
+
+export const SUBTITLE_FILE_EXTENSIONS = [".srt", ".vtt"];
+
+const TIMESTAMP_PATTERN = /(?:(\d{1,2}):)?(\d{2}):(\d{2})[.,](\d{3})/g;
+
+export function isSubtitleFile(file: File) {
+  const name = file.name.toLowerCase();
+  return SUBTITLE_FILE_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+/**
+ * Release names usually carry the language before the extension,
+ * e.g. `Movie.2019.en.srt` or `Movie.eng.forced.vtt`.
+ */
+export function guessSubtitleLanguage(fileName: string) {
+  const parts = fileName.toLowerCase().split(".").slice(1, -1).reverse();
+  return parts.find((part) => /^[a-z]{2,3}(-[a-z]{2})?$/.test(part)) ?? "und";
+}
+
+export function getLanguageLabel(code: string) {
+  if (!code || code === "und") {
+    return "Unknown";
+  }
+  try {
+    const label = new Intl.DisplayNames(["en"], { type: "language" }).of(code);
+    return label && label !== code ? label : code.toUpperCase();
+  } catch (error) {
+    return code.toUpperCase();
+  }
+}
+
+/**
+ * Compare language codes loosely so `en`, `en-US` and `eng` match each other.
+ */
+export function isSameLanguage(a: string, b: string) {
+  const normalize = (code: string) =>
+    code.toLowerCase().split("-")[0].slice(0, 2);
+  return normalize(a) === normalize(b);
+}
+
+function parseTimestamp(
+  hours: string | undefined,
+  minutes: string,
+  seconds: string,
+  millis: string
+) {
+  return (
+    Number(hours ?? 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(millis) / 1000
+  );
+}
+
+function formatTimestamp(totalSeconds: number) {
+  const totalMillis = Math.round(Math.max(totalSeconds, 0) * 1000);
+  const hours = Math.floor(totalMillis / 3600000);
+  const minutes = Math.floor((totalMillis % 3600000) / 60000);
+  const seconds = Math.floor((totalMillis % 60000) / 1000);
+  const millis = totalMillis % 1000;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(
+    2,
+    "0"
+  )}:${String(seconds).padStart(2, "0")}.${String(millis).padStart(3, "0")}`;
+}
+
+export interface VttCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Read the cues of a WebVTT file, enough for chapter and thumbnail tracks.
+ */
+export function parseVttCues(vtt: string): VttCue[] {
+  return vtt
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .flatMap((block) => {
+      const lines = block.split("\n");
+      const timingIndex = lines.findIndex((line) => line.includes("-->"));
+      if (timingIndex === -1) {
+        return [];
+      }
+      const [start, end] = Array.from(
+        lines[timingIndex].matchAll(TIMESTAMP_PATTERN),
+        ([, hours, minutes, seconds, millis]) =>
+          parseTimestamp(hours, minutes, seconds, millis)
+      );
+      if (start === undefined || end === undefined) {
+        return [];
+      }
+      const text = lines
+        .slice(timingIndex + 1)
+        .join("\n")
+        .trim();
+      return [{ start, end, text }];
+    });
+}
+
+/**
+ * SRT and WebVTT only really differ in the header and the millisecond
+ * separator, which is all Video.js cares about.
+ */
+export function srtToVtt(srt: string) {
+  const body = srt
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .trim()
+    .replace(TIMESTAMP_PATTERN, (match) => match.replace(",", "."));
+  return `WEBVTT\n\n${body}\n`;
+}
+
+export function toVtt(text: string) {
+  const trimmed = text.replace(/^\uFEFF/, "");
+  return trimmed.startsWith("WEBVTT") ? trimmed : srtToVtt(trimmed);
+}
+
+/**
+ * Move every cue by `offset` seconds, positive values show subtitles later.
+ */
+export function shiftVtt(vtt: string, offset: number) {
+  if (!offset) {
+    return vtt;
+  }
+  return vtt
+    .split("\n")
+    .map((line) =>
+      line.includes("-->")
+        ? line.replace(
+            TIMESTAMP_PATTERN,
+            (_, hours, minutes, seconds, millis) =>
+              formatTimestamp(
+                parseTimestamp(hours, minutes, seconds, millis) + offset
+              )
+          )
+        : line
+    )
+    .join("\n");
+}
+
+export const CAPTION_SIZES: Record<CaptionStyle["size"], string> = {
+  small: "3vh",
+  medium: "4vh",
+  large: "5.5vh",
+  xlarge: "7vh",
+};
+
+export const CAPTION_BACKGROUNDS: Record<CaptionStyle["background"], string> = {
+  none: "transparent",
+  semi: "rgba(0, 0, 0, 0.5)",
+  opaque: "#000000",
+};
+
+export const CAPTION_EDGES: Record<CaptionStyle["edge"], string> = {
+  none: "none",
+  shadow: "2px 2px 4px rgba(0, 0, 0, 0.9)",
+  outline: "-1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000",
+  raised: "1px 1px 0 #222, 2px 2px 0 #222",
+  depressed: "-1px -1px 0 #222, 1px 1px 0 #ccc",
+};
+
+export const CAPTION_COLORS = [
+  { label: "White", value: "#FFFFFF" },
+  { label: "Yellow", value: "#FFEB3B" },
+  { label: "Green", value: "#69F0AE" },
+  { label: "Cyan", value: "#4DD0E1" },
+  { label: "Black", value: "#000000" },
+];
+
+/**
+ * Styles for the cues rendered by Video.js. Its own caption settings are
+ * written inline, so ours need `!important` to win.
+ */
+export function getCaptionSx({ size, color, background, edge }: CaptionStyle) {
+  return {
+    "& .vjs-text-track-display .vjs-text-track-cue > div": {
+      fontSize: `${CAPTION_SIZES[size]} !important`,
+      color: `${color} !important`,
+      backgroundColor: `${CAPTION_BACKGROUNDS[background]} !important`,
+      textShadow: `${CAPTION_EDGES[edge]} !important`,
+      fontFamily: "inherit !important",
+    },
+  };
+}
@@ -8,12 +8,27 @@
  * 4. Use environment variables for video CDN URLs
  * 
  * Format: Movie ID -> Video URL or configuration
+ *
+ * Which of these is tried first is decided by `STREAM_PROVIDER_ORDER`, see
+ * `src/utils/streamResolver.ts` for the fallback pipeline itself.
  */
 
 export interface VideoSource {
   url: string;
   type: 'hls' | 'mp4' | 'youtube' | 'dash' | 'webm' | 'vidsrc';
-  quality?: 'auto' | '1080p' | '720p' | '480p' | '360p';
+  // Fixed rendition of progressive sources, adaptive ones pick their own
+  quality?:
+    | 'auto'
+    | '2160p'
+    | '1440p'
+    | '1080p'
+    | '720p'
+    | '576p'
+    | '480p'
+    | '360p';
+  // WebVTT tracks for the seekbar: sprite thumbnails and chapter titles
+  thumbnails?: string;
+  chapters?: string;
 }
 
 /**
@@ -29,6 +44,21 @@ export const VIDSRC_DOMAINS = [
   'vsrc.su'
 ];
 
+/**
+ * Provider fallback order
+ * - custom: `MOVIE_VIDEO_SOURCES` below
+ * - stremio: streams from the configured Stremio addons
+ * - vidsrc: every domain in `VIDSRC_DOMAINS`, in order
+ * - trailer: the title's YouTube trailer from TMDB
+ */
+export type StreamProviderType = 'custom' | 'stremio' | 'vidsrc' | 'trailer';
+export const STREAM_PROVIDER_ORDER: StreamProviderType[] = [
+  'custom',
+  'stremio',
+  'vidsrc',
+  'trailer',
+];
+
 // Video source mapping - Add your movie IDs and their video URLs here
 // Example format: movieId -> VideoSource
 export const MOVIE_VIDEO_SOURCES: Record<number, VideoSource> = {
@@ -36,29 +66,21 @@ export const MOVIE_VIDEO_SOURCES: Record<number, VideoSource> = {
   // 550: {
   //   url: 'https://your-cdn.com/movies/fight-club.m3u8',
   //   type: 'hls',
-  //   quality: 'auto'
+  //   quality: 'auto',
+  //   thumbnails: 'https://your-cdn.com/movies/fight-club/thumbnails.vtt',
   // },
 };
 
-// Fallback to sample videos for demonstration
-const SAMPLE_VIDEOS: VideoSource[] = [
-  {
-    url: 'https://bitmovin-a.akamaihd.net/content/sintel/hls/playlist.m3u8',
-    type: 'hls',
-    quality: 'auto'
-  },
-  {
-    url: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4',
-    type: 'mp4',
-    quality: '1080p'
-  },
-];
-
 /**
  * Get Vidsrc embed URL for a movie or TV show
  */
-export function getVidsrcUrl(tmdbId: number, mediaType: 'movie' | 'tv', season?: number, episode?: number): string {
-  const domain = VIDSRC_DOMAINS[0]; // Use primary domain
+export function getVidsrcUrl(
+  tmdbId: number,
+  mediaType: 'movie' | 'tv',
+  season?: number,
+  episode?: number,
+  domain: string = VIDSRC_DOMAINS[0]
+): string {
   const baseUrl = `https://${domain}/embed`;
   
   if (mediaType === 'movie') {
@@ -73,28 +95,33 @@ export function getVidsrcUrl(tmdbId: number, mediaType: 'movie' | 'tv', season?:
 }
 
 /**
- * Get video source for a movie
- * Priority: 1. Vidsrc (if enabled), 2. Custom mapping, 3. Sample videos (for demo)
+ * Get the custom source configured for a movie, if any
  */
-export function getVideoSource(movieId: number, mediaType: 'movie' | 'tv' = 'movie'): VideoSource | null {
-  // Priority 1: Use Vidsrc if enabled
-  if (USE_VIDSRC) {
-    return {
-      url: getVidsrcUrl(movieId, mediaType),
-      type: 'vidsrc',
-      quality: 'auto'
-    };
+export function getCustomVideoSource(
+  movieId: number,
+  mediaType: 'movie' | 'tv' = 'movie'
+): VideoSource | null {
+  if (mediaType !== 'movie') {
+    return null;
   }
-  
-  // Priority 2: Check if we have a custom source for this movie
-  if (MOVIE_VIDEO_SOURCES[movieId]) {
-    return MOVIE_VIDEO_SOURCES[movieId];
+  return MOVIE_VIDEO_SOURCES[movieId] ?? null;
+}
+
+/**
+ * Guess the source type of a direct stream URL from its extension
+ */
+export function getVideoSourceType(url: string): VideoSource['type'] {
+  const path = url.split('?')[0].toLowerCase();
+  if (path.endsWith('.m3u8')) {
+    return 'hls';
   }
-  
-  // Priority 3: For demo purposes, return a sample video
-  // In production, you would return null or fetch from your video hosting service
-  const randomSample = SAMPLE_VIDEOS[Math.floor(Math.random() * SAMPLE_VIDEOS.length)];
-  return randomSample;
+  if (path.endsWith('.mpd')) {
+    return 'dash';
+  }
+  if (path.endsWith('.webm')) {
+    return 'webm';
+  }
+  return 'mp4';
 }
 
 /**